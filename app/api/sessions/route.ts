@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getSessionStore } from '../../../lib/blob-store';
+import {
+    DEVICE_ID_HEADER,
+    DEVICE_ID_PATTERN,
+    mergeSyncPayloads,
+    sanitizeSyncPayload,
+    SyncPayload
+} from '../../../lib/sync';
+
+export const dynamic = 'force-dynamic';
+
+const getDeviceId = (request: Request): string | null => {
+    const id = request.headers.get(DEVICE_ID_HEADER);
+    return id && DEVICE_ID_PATTERN.test(id) ? id : null;
+};
+
+const readPayload = async (deviceId: string): Promise<SyncPayload> =>
+    sanitizeSyncPayload(await getSessionStore().get(deviceId));
+
+const withDevice = async (request: Request, handler: (deviceId: string) => Promise<SyncPayload>) => {
+    const deviceId = getDeviceId(request);
+    if (!deviceId) {
+        return NextResponse.json({ error: `Missing or invalid ${DEVICE_ID_HEADER} header` }, { status: 400 });
+    }
+    try {
+        return NextResponse.json(await handler(deviceId));
+    } catch (error) {
+        console.error('Error accessing session store:', error);
+        return NextResponse.json({ error: 'Session store unavailable' }, { status: 500 });
+    }
+};
+
+export async function GET(request: Request) {
+    return withDevice(request, readPayload);
+}
+
+// Merges the posted sessions and tombstones into the stored copy and returns the result.
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+    return withDevice(request, async (deviceId) => {
+        const merged = mergeSyncPayloads(await readPayload(deviceId), sanitizeSyncPayload(body));
+        await getSessionStore().setJSON(deviceId, merged);
+        return merged;
+    });
+}
+
+// Deletes the session given by ?id=, or every stored session when no id is given.
+export async function DELETE(request: Request) {
+    const id = new URL(request.url).searchParams.get('id');
+    return withDevice(request, async (deviceId) => {
+        const stored = await readPayload(deviceId);
+        const ids = id ? [id] : stored.sessions.map((session) => session.id);
+        const deletedAt = Date.now();
+        const merged = mergeSyncPayloads(stored, {
+            sessions: [],
+            deleted: Object.fromEntries(ids.map((sessionId) => [sessionId, deletedAt]))
+        });
+        await getSessionStore().setJSON(deviceId, merged);
+        return merged;
+    });
+}
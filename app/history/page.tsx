@@ -1,104 +1,616 @@
 'use client';
 
-import { useSession } from '../../contexts/SessionContext';
+import { Fragment, useCallback, useMemo, useState } from 'react';
+import { useSession, LogEntry } from '../../contexts/SessionContext';
+import { formatDuration, formatStopwatchTime } from '../../lib/duration';
+import {
+    DEFAULT_SESSION_FILTERS,
+    filterSessions,
+    getSessionGroupKey,
+    sortSessions,
+    SessionFilters,
+    SessionGrouping,
+    SessionSort,
+    SessionSortKey
+} from '../../lib/session-filters';
+import { TagList } from '../../components/session-details';
+import { SessionForm, SplitSessionForm } from '../../components/session-form';
+import { SessionImport } from '../../components/session-import';
+import { SessionTrash } from '../../components/session-trash';
+import { UndoToast } from '../../components/undo-toast';
+import { createSession, getMergeError, SessionFields } from '../../lib/session-editing';
+import { downloadSessions, EXPORT_FORMATS } from '../../lib/session-export';
+import { DateOrder, formatDateKey, formatSessionTime } from '../../lib/timezone';
+
+const KIND_FILTERS = [
+    { value: 'all', label: 'All types' },
+    { value: 'timer', label: 'Timer' },
+    { value: 'stopwatch', label: 'Stopwatch' },
+    { value: 'interval', label: 'Interval' }
+];
+
+const STATUS_FILTERS = [
+    { value: 'all', label: 'Any status' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'cancelled', label: 'Cancelled' }
+];
+
+const GROUPING_OPTIONS = [
+    { value: 'none', label: 'No grouping' },
+    { value: 'day', label: 'Group by day' },
+    { value: 'week', label: 'Group by week' }
+];
+
+// Sortable columns; numeric ones start with the largest first
+const COLUMNS: { key: SessionSortKey; label: string; defaultDirection: SessionSort['direction'] }[] = [
+    { key: 'date', label: 'Date', defaultDirection: 'desc' },
+    { key: 'kind', label: 'Type', defaultDirection: 'asc' },
+    { key: 'duration', label: 'Duration', defaultDirection: 'desc' },
+    { key: 'target', label: 'Target', defaultDirection: 'desc' },
+    { key: 'status', label: 'Status', defaultDirection: 'asc' }
+];
+
+const PAGE_SIZE = 50;
+
+const VIEWS = [
+    { value: 'sessions', label: 'Sessions' },
+    { value: 'trash', label: 'Trash' }
+] as const;
+
+const FIELD_CLASS = 'p-2 border border-gray-300 rounded-md text-sm';
+
+// "2026.10.19 (Mon)" for a day, "Week of 2026.10.19" for a week, in the preferred date order
+const formatGroupLabel = (key: string, grouping: SessionGrouping, dateOrder: DateOrder): string => {
+    const date = formatDateKey(key, dateOrder);
+    if (grouping === 'week') return `Week of ${date}`;
+    const weekday = new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+    return `${date} (${weekday})`;
+};
 
 export default function HistoryPage() {
-    const { sessions, removeSession, clearSessions, timezone } = useSession();
-
-    const formatEasternTime = (date) => {
-        const options = {
-            timeZone: timezone,
-            year: 'numeric',
-            month: '2-digit',
-            day: '2-digit',
-            hour: '2-digit',
-            minute: '2-digit',
-            second: '2-digit',
-            hour12: true
-        };
-        const formatted = date.toLocaleString('en-US', options);
-        const [datePart, timePart] = formatted.split(', ');
-        const [month, day, year] = datePart.split('/');
-        return `${year}.${month}.${day} ${timePart}`;
+    const {
+        sessions: allSessions,
+        trashedSessions,
+        addSession,
+        removeSession,
+        updateSession,
+        splitSession,
+        mergeSessions,
+        clearSessions,
+        restoreSessions,
+        timezone,
+        displaySettings
+    } = useSession();
+    const [filters, setFilters] = useState<SessionFilters>(DEFAULT_SESSION_FILTERS);
+    const [sort, setSort] = useState<SessionSort>({ key: 'date', direction: 'desc' });
+    const [grouping, setGrouping] = useState<SessionGrouping>('none');
+    const [page, setPage] = useState(0);
+    const [expandedIds, setExpandedIds] = useState<string[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [view, setView] = useState<'sessions' | 'trash'>('sessions');
+    const [undo, setUndo] = useState<{ message: string; ids: string[] } | null>(null);
+    const [confirmingClear, setConfirmingClear] = useState(false);
+    const [adding, setAdding] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const dismissUndo = useCallback(() => setUndo(null), []);
+
+    const handleRemove = (id: string) => {
+        removeSession(id);
+        setUndo({ message: 'Session moved to trash.', ids: [id] });
+    };
+
+    const handleClearAll = () => {
+        const ids = allSessions.map((session) => session.id);
+        clearSessions();
+        setConfirmingClear(false);
+        setUndo({ message: `${ids.length} sessions moved to trash.`, ids });
+    };
+
+    const handleAdd = (fields: SessionFields) => {
+        addSession(createSession(fields));
+        setAdding(false);
+    };
+
+    const handleSplit = (id: string, offsetMs: number) => {
+        splitSession(id, offsetMs);
+        setEditingId(null);
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]));
+    };
+
+    const selectedSessions = allSessions.filter((session) => selectedIds.includes(session.id));
+    const mergeError = getMergeError(selectedSessions);
+
+    const handleMerge = () => {
+        mergeSessions(selectedSessions.map((session) => session.id));
+        setSelectedIds([]);
     };
 
-    const formatDuration = (seconds) => {
-        const hours = Math.floor(seconds / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const remainingSeconds = seconds % 60;
-
-        if (hours > 0) {
-            return `${hours}h ${minutes}m ${remainingSeconds}s`;
-        } else if (minutes > 0) {
-            return `${minutes}m ${remainingSeconds}s`;
-        } else {
-            return `${remainingSeconds}s`;
-        }
+    const handleUndo = () => {
+        if (undo) restoreSessions(undo.ids);
+        setUndo(null);
     };
 
-    const formatTotalDuration = (totalSeconds) => {
-        const hours = Math.floor(totalSeconds / 3600);
-        const minutes = Math.floor((totalSeconds % 3600) / 60);
-        const seconds = totalSeconds % 60;
-
-        if (hours > 0) {
-            return `${hours}h ${minutes}m ${seconds}s`;
-        } else if (minutes > 0) {
-            return `${minutes}m ${seconds}s`;
-        } else {
-            return `${seconds}s`;
-        }
+    const toggleExpanded = (id: string) => {
+        setExpandedIds((prev) => (prev.includes(id) ? prev.filter((expandedId) => expandedId !== id) : [...prev, id]));
     };
 
+    const updateFilters = (changes: Partial<SessionFilters>) => {
+        setFilters((prev) => ({ ...prev, ...changes }));
+        setPage(0);
+    };
+
+    const toggleSort = (column: (typeof COLUMNS)[number]) => {
+        setSort((prev) =>
+            prev.key === column.key
+                ? { key: column.key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+                : { key: column.key, direction: column.defaultDirection }
+        );
+        setPage(0);
+    };
+
+    // Filtered and sorted; when grouping, groups run newest first (oldest first when sorting
+    // by date ascending) and the chosen sort applies within each group
+    const sessions = useMemo(() => {
+        const sorted = sortSessions(filterSessions(allSessions, filters, timezone), sort);
+        if (grouping === 'none') return sorted;
+        const groupSign = sort.key === 'date' && sort.direction === 'asc' ? 1 : -1;
+        const keys = new Map(sorted.map((session) => [session.id, getSessionGroupKey(session, grouping, timezone)]));
+        return sorted
+            .map((session, index) => ({ session, index }))
+            .sort((a, b) => {
+                const [left, right] = [keys.get(a.session.id), keys.get(b.session.id)];
+                return left === right ? a.index - b.index : left < right ? -groupSign : groupSign;
+            })
+            .map(({ session }) => session);
+    }, [allSessions, filters, sort, grouping, timezone]);
+
+    // Subtotals cover the whole group, even when it spans several pages
+    const groupTotals = useMemo(() => {
+        const totals = new Map<string, { count: number; durationMs: number }>();
+        if (grouping === 'none') return totals;
+        sessions.forEach((session) => {
+            const key = getSessionGroupKey(session, grouping, timezone);
+            const current = totals.get(key) ?? { count: 0, durationMs: 0 };
+            totals.set(key, { count: current.count + 1, durationMs: current.durationMs + session.durationMs });
+        });
+        return totals;
+    }, [sessions, grouping, timezone]);
+
+    const pageCount = Math.max(1, Math.ceil(sessions.length / PAGE_SIZE));
+    // Deleting sessions can leave the current page past the end
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageSessions = sessions.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+    const filtersChanged = JSON.stringify(filters) !== JSON.stringify(DEFAULT_SESSION_FILTERS);
+
+    const formatTime = (date: Date) => formatSessionTime(date, timezone, displaySettings);
+
+    const renderSession = (session: LogEntry) => (
+        <Fragment key={session.id}>
+            <tr>
+                <td className="py-2 pl-4">
+                    <input
+                        type="checkbox"
+                        aria-label="Select for merging"
+                        checked={selectedIds.includes(session.id)}
+                        onChange={() => toggleSelected(session.id)}
+                    />
+                </td>
+                <td className="py-2 px-4">{formatTime(session.startTime)}</td>
+                <td className="py-2 px-4">
+                    <span className="capitalize">{session.kind}</span>
+                    {session.label && <span className="block text-xs text-gray-500">{session.label}</span>}
+                    <TagList tags={session.tags} />
+                    {session.notes && (
+                        <span className="block max-w-48 truncate text-xs text-gray-500 italic" title={session.notes}>
+                            {session.notes}
+                        </span>
+                    )}
+                </td>
+                <td className="py-2 px-4">
+                    {formatDuration(session.durationMs)}
+                    {session.overtimeMs > 0 && (
+                        <span className="block text-xs text-red-600">+{formatDuration(session.overtimeMs)} over</span>
+                    )}
+                    {session.laps?.length > 0 && (
+                        <button
+                            onClick={() => toggleExpanded(session.id)}
+                            className="block text-xs text-gray-500 hover:text-gray-700"
+                            aria-expanded={expandedIds.includes(session.id)}
+                        >
+                            {expandedIds.includes(session.id) ? '▾' : '▸'} {session.laps.length} laps
+                        </button>
+                    )}
+                </td>
+                <td className="py-2 px-4">
+                    {session.targetDurationMs !== undefined ? formatDuration(session.targetDurationMs) : '-'}
+                </td>
+                <td className="py-2 px-4">
+                    {session.completed ? 'Completed' : <span className="text-gray-500">Cancelled</span>}
+                </td>
+                <td className="py-2 whitespace-nowrap">
+                    <button
+                        onClick={() => setEditingId((prev) => (prev === session.id ? null : session.id))}
+                        className="mr-3 text-blue-600 hover:text-blue-800 text-sm"
+                        aria-expanded={editingId === session.id}
+                    >
+                        {editingId === session.id ? 'Close' : 'Edit'}
+                    </button>
+                    <button
+                        onClick={() => handleRemove(session.id)}
+                        className="text-red-500 hover:text-red-700 text-sm"
+                        title="Move to trash"
+                    >
+                        X
+                    </button>
+                </td>
+            </tr>
+            {editingId === session.id && (
+                <tr>
+                    <td colSpan={7} className="pb-4 px-4 space-y-4">
+                        <SessionForm
+                            session={session}
+                            timezone={timezone}
+                            submitLabel="Save"
+                            onSubmit={(changes) => {
+                                updateSession(session.id, changes);
+                                setEditingId(null);
+                            }}
+                            onCancel={() => setEditingId(null)}
+                        />
+                        <SplitSessionForm session={session} onSplit={(offsetMs) => handleSplit(session.id, offsetMs)} />
+                    </td>
+                </tr>
+            )}
+            {expandedIds.includes(session.id) && session.laps?.length > 0 && (
+                <tr>
+                    <td colSpan={7} className="pb-3 px-4">
+                        <table className="ml-4 text-sm text-gray-600 tabular-nums">
+                            <thead>
+                                <tr>
+                                    <th className="pr-6 font-normal text-left">Lap</th>
+                                    <th className="pr-6 font-normal text-right">Lap time</th>
+                                    <th className="font-normal text-right">Split</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {session.laps.map((lap, index) => (
+                                    <tr key={index}>
+                                        <td className="pr-6">{index + 1}</td>
+                                        <td className="pr-6 text-right">{formatStopwatchTime(lap.lapMs)}</td>
+                                        <td className="text-right">{formatStopwatchTime(lap.splitMs)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </td>
+                </tr>
+            )}
+        </Fragment>
+    );
+
+    // A heading row with the group's subtotal wherever a new day or week starts on this page
+    const renderRows = () =>
+        pageSessions.map((session, index) => {
+            if (grouping === 'none') return renderSession(session);
+            const key = getSessionGroupKey(session, grouping, timezone);
+            const previous = index > 0 ? getSessionGroupKey(pageSessions[index - 1], grouping, timezone) : null;
+            if (key === previous) return renderSession(session);
+            const total = groupTotals.get(key);
+            return (
+                <Fragment key={`group-${key}-${session.id}`}>
+                    <tr className="bg-gray-50 text-sm">
+                        <th colSpan={3} scope="rowgroup" className="py-2 px-4 font-semibold text-left">
+                            {formatGroupLabel(key, grouping, displaySettings.dateOrder)}
+                        </th>
+                        <td colSpan={4} className="py-2 px-4 text-gray-600">
+                            {total.count} {total.count === 1 ? 'session' : 'sessions'} ·{' '}
+                            {formatDuration(total.durationMs)}
+                        </td>
+                    </tr>
+                    {renderSession(session)}
+                </Fragment>
+            );
+        });
+
     return (
-        <div className="max-w-2xl mx-auto py-12">
+        <div className="max-w-4xl mx-auto py-12">
             <div className="bg-white rounded-lg shadow p-6">
-                {sessions.length === 0 ? (
-                    <p className="text-gray-700">No session history yet.</p>
+                {(view === 'trash' || trashedSessions.length > 0) && (
+                    <div className="mb-4 flex gap-4 text-sm" role="tablist">
+                        {VIEWS.map((option) => (
+                            <button
+                                key={option.value}
+                                role="tab"
+                                aria-selected={view === option.value}
+                                onClick={() => setView(option.value)}
+                                className={
+                                    view === option.value
+                                        ? 'font-semibold text-gray-900 border-b-2 border-blue-500'
+                                        : 'text-gray-600 hover:text-gray-900'
+                                }
+                            >
+                                {option.label}
+                                {option.value === 'trash' && ` (${trashedSessions.length})`}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {view === 'trash' ? (
+                    <SessionTrash formatTime={formatTime} />
                 ) : (
                     <>
-                        <div className="overflow-x-auto">
-                            <table className="w-full text-left">
-                                <thead>
-                                    <tr>
-                                        <th className="py-2 px-4 font-semibold">Date</th>
-                                        <th className="py-2 px-4 font-semibold">Duration</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {sessions.map((session) => (
-                                        <tr key={session.id}>
-                                            <td className="py-2 px-4">{formatEasternTime(session.startTime)}</td>
-                                            <td className="py-2 px-4">{formatDuration(session.duration)}</td>
-                                            <td className="py-2 ">
-                                                <button
-                                                    onClick={() => removeSession(session.id)}
-                                                    className="text-red-500 hover:text-red-700 text-sm"
-                                                    title="Delete session"
-                                                >
-                                                    X
-                                                </button>
-                                            </td>
-                                        </tr>
+                        {adding ? (
+                            <div className="mb-6 rounded border border-gray-200 p-4">
+                                <h2 className="mb-3 font-semibold">Add a session</h2>
+                                <SessionForm
+                                    timezone={timezone}
+                                    submitLabel="Add session"
+                                    onSubmit={handleAdd}
+                                    onCancel={() => setAdding(false)}
+                                />
+                            </div>
+                        ) : (
+                            !importing && (
+                                <div className="mb-4 flex gap-4 text-sm">
+                                    <button
+                                        onClick={() => setAdding(true)}
+                                        className="text-blue-600 hover:text-blue-800"
+                                    >
+                                        + Add a session you didn&apos;t time
+                                    </button>
+                                    <button
+                                        onClick={() => setImporting(true)}
+                                        className="text-blue-600 hover:text-blue-800"
+                                    >
+                                        Import from a file
+                                    </button>
+                                </div>
+                            )
+                        )}
+                        {importing && <SessionImport onClose={() => setImporting(false)} />}
+                        {allSessions.length > 0 && (
+                            <div className="mb-4 flex flex-wrap gap-2">
+                                <select
+                                    aria-label="Filter by type"
+                                    value={filters.kind}
+                                    onChange={(event) =>
+                                        updateFilters({ kind: event.target.value as SessionFilters['kind'] })
+                                    }
+                                    className={FIELD_CLASS}
+                                >
+                                    {KIND_FILTERS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
                                     ))}
-                                </tbody>
-                            </table>
-                        </div>
-                        <div className="mt-4 flex justify-between">
-                            <p className="text-gray-700 rounded text-sm">
-                                Total:{' '}
-                                {formatTotalDuration(sessions.reduce((total, session) => total + session.duration, 0))}
-                            </p>
-                            <p
-                                onClick={clearSessions}
-                                className=" text-red-600 rounded text-sm cursor-pointer hover:text-red-800"
-                            >
-                                Clear All
+                                </select>
+                                <select
+                                    aria-label="Filter by status"
+                                    value={filters.status}
+                                    onChange={(event) =>
+                                        updateFilters({ status: event.target.value as SessionFilters['status'] })
+                                    }
+                                    className={FIELD_CLASS}
+                                >
+                                    {STATUS_FILTERS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="search"
+                                    aria-label="Search labels, tags and notes"
+                                    placeholder="Search labels, #tags, notes"
+                                    value={filters.search}
+                                    onChange={(event) => updateFilters({ search: event.target.value })}
+                                    className={`${FIELD_CLASS} grow min-w-48`}
+                                />
+                                <label className="flex items-center gap-1 text-sm text-gray-600">
+                                    From
+                                    <input
+                                        type="date"
+                                        value={filters.from}
+                                        max={filters.to || undefined}
+                                        onChange={(event) => updateFilters({ from: event.target.value })}
+                                        className={FIELD_CLASS}
+                                    />
+                                </label>
+                                <label className="flex items-center gap-1 text-sm text-gray-600">
+                                    To
+                                    <input
+                                        type="date"
+                                        value={filters.to}
+                                        min={filters.from || undefined}
+                                        onChange={(event) => updateFilters({ to: event.target.value })}
+                                        className={FIELD_CLASS}
+                                    />
+                                </label>
+                                <span className="flex items-center gap-1 text-sm text-gray-600">
+                                    Minutes
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        aria-label="Minimum minutes"
+                                        placeholder="min"
+                                        value={filters.minMinutes}
+                                        onChange={(event) => updateFilters({ minMinutes: event.target.value })}
+                                        className={`${FIELD_CLASS} w-20`}
+                                    />
+                                    –
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        aria-label="Maximum minutes"
+                                        placeholder="max"
+                                        value={filters.maxMinutes}
+                                        onChange={(event) => updateFilters({ maxMinutes: event.target.value })}
+                                        className={`${FIELD_CLASS} w-20`}
+                                    />
+                                </span>
+                                <select
+                                    aria-label="Grouping"
+                                    value={grouping}
+                                    onChange={(event) => {
+                                        setGrouping(event.target.value as SessionGrouping);
+                                        setPage(0);
+                                    }}
+                                    className={FIELD_CLASS}
+                                >
+                                    {GROUPING_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                {filtersChanged && (
+                                    <button
+                                        onClick={() => updateFilters(DEFAULT_SESSION_FILTERS)}
+                                        className="text-sm text-blue-600 hover:text-blue-800"
+                                    >
+                                        Reset filters
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {sessions.length === 0 ? (
+                            <p className="text-gray-700">
+                                {allSessions.length === 0
+                                    ? 'No session history yet.'
+                                    : 'No sessions match these filters.'}
                             </p>
-                        </div>
+                        ) : (
+                            <>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-left">
+                                        <thead>
+                                            <tr>
+                                                <th className="py-2 pl-4">
+                                                    <span className="sr-only">Select</span>
+                                                </th>
+                                                {COLUMNS.map((column) => (
+                                                    <th
+                                                        key={column.key}
+                                                        className="py-2 px-4 font-semibold"
+                                                        aria-sort={
+                                                            sort.key === column.key
+                                                                ? sort.direction === 'asc'
+                                                                    ? 'ascending'
+                                                                    : 'descending'
+                                                                : undefined
+                                                        }
+                                                    >
+                                                        <button
+                                                            onClick={() => toggleSort(column)}
+                                                            className="font-semibold hover:text-gray-600"
+                                                        >
+                                                            {column.label}
+                                                            {sort.key === column.key &&
+                                                                (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                                                        </button>
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>{renderRows()}</tbody>
+                                    </table>
+                                </div>
+                                {pageCount > 1 && (
+                                    <nav
+                                        aria-label="Pages"
+                                        className="mt-4 flex items-center justify-center gap-4 text-sm"
+                                    >
+                                        <button
+                                            onClick={() => setPage(currentPage - 1)}
+                                            disabled={currentPage === 0}
+                                            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                                        >
+                                            ‹ Previous
+                                        </button>
+                                        <span className="text-gray-600">
+                                            Page {currentPage + 1} of {pageCount}
+                                        </span>
+                                        <button
+                                            onClick={() => setPage(currentPage + 1)}
+                                            disabled={currentPage === pageCount - 1}
+                                            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                                        >
+                                            Next ›
+                                        </button>
+                                    </nav>
+                                )}
+                                {selectedIds.length > 0 && (
+                                    <div className="mt-4 flex items-center gap-3 text-sm">
+                                        <button
+                                            onClick={handleMerge}
+                                            disabled={mergeError !== null}
+                                            className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+                                        >
+                                            Merge {selectedSessions.length} selected
+                                        </button>
+                                        <button onClick={() => setSelectedIds([])} className="text-gray-600">
+                                            Clear selection
+                                        </button>
+                                        {mergeError && <span className="text-gray-500">{mergeError}</span>}
+                                    </div>
+                                )}
+                                <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                                    Export {sessions.length === allSessions.length ? 'all' : 'these'} {sessions.length}{' '}
+                                    sessions:
+                                    {EXPORT_FORMATS.map((format) => (
+                                        <button
+                                            key={format.value}
+                                            onClick={() => downloadSessions(sessions, format.value, timezone)}
+                                            className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                                        >
+                                            {format.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="mt-4 flex justify-between">
+                                    <p className="text-gray-700 rounded text-sm">
+                                        Total:{' '}
+                                        {formatDuration(
+                                            sessions.reduce((total, session) => total + session.durationMs, 0)
+                                        )}
+                                        {sessions.length !== allSessions.length &&
+                                            ` across ${sessions.length} of ${allSessions.length} sessions`}
+                                    </p>
+                                    {confirmingClear ? (
+                                        <span className="flex items-center gap-3 text-sm">
+                                            Move all {allSessions.length} sessions to trash?
+                                            <button
+                                                onClick={handleClearAll}
+                                                className="font-semibold text-red-600 hover:text-red-800"
+                                            >
+                                                Clear All
+                                            </button>
+                                            <button onClick={() => setConfirmingClear(false)} className="text-gray-600">
+                                                Cancel
+                                            </button>
+                                        </span>
+                                    ) : (
+                                        <button
+                                            onClick={() => setConfirmingClear(true)}
+                                            className="text-red-600 rounded text-sm hover:text-red-800"
+                                        >
+                                            Clear All
+                                        </button>
+                                    )}
+                                </div>
+                            </>
+                        )}
                     </>
                 )}
             </div>
+            {undo && (
+                <UndoToast key={undo.ids.join()} message={undo.message} onUndo={handleUndo} onDismiss={dismissUndo} />
+            )}
         </div>
     );
 }
@@ -1,6 +1,7 @@
 import '../styles/globals.css';
 import { Footer } from '../components/footer';
 import { Header } from '../components/header';
+import { StorageWarning } from '../components/storage-warning';
 import { SessionProvider } from '../contexts/SessionContext';
 
 export const metadata = {
@@ -24,6 +25,7 @@ export default function RootLayout({ children }) {
                     <div className="flex flex-col min-h-screen px-6 bg-noise sm:px-12">
                         <div className="flex flex-col w-full max-w-5xl mx-auto grow">
                             <Header />
+                            <StorageWarning />
                             <main className="grow">{children}</main>
                             <Footer />
                         </div>
@@ -1,23 +1,91 @@
 'use client';
 
-import { useSession } from '../../contexts/SessionContext';
-
-const TIMEZONE_OPTIONS = [
-    { value: 'America/New_York', label: 'Eastern Time (ET)' },
-    { value: 'America/Chicago', label: 'Central Time (CT)' },
-    { value: 'America/Denver', label: 'Mountain Time (MT)' },
-    { value: 'America/Los_Angeles', label: 'Pacific Time (PT)' },
-    { value: 'Asia/Singapore', label: 'Singapore Standard Time (SGT)' },
-    { value: 'Asia/Seoul', label: 'Korea Standard Time (KST)' },
-    { value: 'Europe/Amsterdam', label: 'Central European Time (CET)' },
-    { value: 'UTC', label: 'UTC (Coordinated Universal Time)' }
-];
+import { useSession, AlarmSettings } from '../../contexts/SessionContext';
+import { useEffect, useState } from 'react';
+import { ALARM_PATTERNS, AlarmPattern, startAlarm, unlockAudio } from '../../lib/audio';
+import { getNotificationPermission, requestNotificationPermission } from '../../lib/notifications';
+import { PresetSettings } from '../../components/preset-settings';
+import { GoalSettings } from '../../components/goal-settings';
+import { WorldClockSettings } from '../../components/world-clock-settings';
+import { AlarmClockSettings } from '../../components/alarm-clock-settings';
+import { TimezonePicker } from '../../components/timezone-picker';
+import { DATE_ORDER_OPTIONS, DateOrder, formatSessionTime, HOUR_CYCLE_OPTIONS, HourCycle } from '../../lib/timezone';
+
+const INTERVAL_FIELDS = [
+    { key: 'workMinutes', label: 'Work (minutes)', min: 1, max: 99 },
+    { key: 'shortBreakMinutes', label: 'Short break (minutes)', min: 1, max: 99 },
+    { key: 'longBreakMinutes', label: 'Long break (minutes)', min: 1, max: 99 },
+    { key: 'cyclesBeforeLongBreak', label: 'Work phases before a long break', min: 1, max: 12 }
+] as const;
+
+const ALARM_FIELDS = [
+    { key: 'repeat', label: 'Repeat pattern (times)', min: 1, max: 60 },
+    { key: 'snoozeMinutes', label: 'Snooze (minutes)', min: 1, max: 60 }
+] as const;
 
 export default function SettingsPage() {
-    const { timezone, setTimezone } = useSession();
+    const {
+        timezone,
+        setTimezone,
+        displaySettings,
+        setDisplaySettings,
+        intervalConfig,
+        setIntervalConfig,
+        alarmSettings,
+        setAlarmSettings,
+        trashRetentionDays,
+        setTrashRetentionDays
+    } = useSession();
+    const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+        'default'
+    );
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        setNotificationPermission(getNotificationPermission());
+    }, []);
+
+    // Keeps the preview of the chosen zone and formats ticking
+    useEffect(() => {
+        const id = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(id);
+    }, []);
+
+    const handleIntervalChange = (field: (typeof INTERVAL_FIELDS)[number], value: string) => {
+        const parsed = parseInt(value, 10);
+        if (isNaN(parsed)) return;
+        setIntervalConfig({ ...intervalConfig, [field.key]: Math.min(field.max, Math.max(field.min, parsed)) });
+    };
+
+    const updateAlarm = (changes: Partial<AlarmSettings>) => {
+        setAlarmSettings({ ...alarmSettings, ...changes });
+    };
+
+    const handleAlarmFieldChange = (field: (typeof ALARM_FIELDS)[number], value: string) => {
+        const parsed = parseInt(value, 10);
+        if (isNaN(parsed)) return;
+        updateAlarm({ [field.key]: Math.min(field.max, Math.max(field.min, parsed)) });
+    };
+
+    const handleRetentionChange = (value: string) => {
+        const parsed = parseInt(value, 10);
+        if (isNaN(parsed)) return;
+        setTrashRetentionDays(Math.min(365, Math.max(1, parsed)));
+    };
+
+    const handleNotificationsChange = async (enabled: boolean) => {
+        if (!enabled) {
+            updateAlarm({ notifications: false });
+            return;
+        }
+        const permission = await requestNotificationPermission();
+        setNotificationPermission(permission);
+        updateAlarm({ notifications: permission === 'granted' });
+    };
 
-    const handleTimezoneChange = (event) => {
-        setTimezone(event.target.value);
+    const handleAlarmTest = () => {
+        unlockAudio();
+        startAlarm({ ...alarmSettings, repeat: 1 });
     };
 
     return (
@@ -27,32 +95,176 @@ export default function SettingsPage() {
                     <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-2">
                         Time Zone
                     </label>
-                    <select
+                    <TimezonePicker
                         id="timezone"
                         value={timezone}
-                        onChange={handleTimezoneChange}
-                        className="w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    >
-                        {TIMEZONE_OPTIONS.map((option) => (
-                            <option key={option.value} value={option.value}>
-                                {option.label}
-                            </option>
+                        onChange={setTimezone}
+                        className="p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block text-sm text-gray-600">
+                            Clock
+                            <select
+                                value={displaySettings.hourCycle}
+                                onChange={(event) =>
+                                    setDisplaySettings({
+                                        ...displaySettings,
+                                        hourCycle: event.target.value as HourCycle
+                                    })
+                                }
+                                className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {HOUR_CYCLE_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block text-sm text-gray-600">
+                            Dates
+                            <select
+                                value={displaySettings.dateOrder}
+                                onChange={(event) =>
+                                    setDisplaySettings({
+                                        ...displaySettings,
+                                        dateOrder: event.target.value as DateOrder
+                                    })
+                                }
+                                className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {DATE_ORDER_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-600" suppressHydrationWarning>
+                        Now: {formatSessionTime(now, timezone, displaySettings)}
+                    </p>
+                </div>
+
+                <WorldClockSettings />
+
+                <div>
+                    <h4 className="block text-sm font-medium text-gray-700 mb-2">Interval Mode</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {INTERVAL_FIELDS.map((field) => (
+                            <label key={field.key} className="block text-sm text-gray-600">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    max={field.max}
+                                    value={intervalConfig[field.key]}
+                                    onChange={(event) => handleIntervalChange(field, event.target.value)}
+                                    className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <h4 className="block text-sm font-medium text-gray-700 mb-2">Sound</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block text-sm text-gray-600">
+                            Alarm pattern
+                            <select
+                                value={alarmSettings.pattern}
+                                onChange={(event) => updateAlarm({ pattern: event.target.value as AlarmPattern })}
+                                className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {Object.entries(ALARM_PATTERNS).map(([value, pattern]) => (
+                                    <option key={value} value={value}>
+                                        {pattern.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block text-sm text-gray-600">
+                            Volume ({Math.round(alarmSettings.volume * 100)}%)
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(alarmSettings.volume * 100)}
+                                onChange={(event) => updateAlarm({ volume: Number(event.target.value) / 100 })}
+                                className="mt-3 w-full"
+                            />
+                        </label>
+                        {ALARM_FIELDS.map((field) => (
+                            <label key={field.key} className="block text-sm text-gray-600">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    max={field.max}
+                                    value={alarmSettings[field.key]}
+                                    onChange={(event) => handleAlarmFieldChange(field, event.target.value)}
+                                    className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            </label>
                         ))}
-                    </select>
+                    </div>
+                    <div className="mt-4 flex items-start justify-between gap-4">
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-gray-600">
+                                <input
+                                    type="checkbox"
+                                    checked={alarmSettings.buttonClicks}
+                                    onChange={(event) => updateAlarm({ buttonClicks: event.target.checked })}
+                                />
+                                Click on button presses
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-gray-600">
+                                <input
+                                    type="checkbox"
+                                    checked={alarmSettings.notifications && notificationPermission === 'granted'}
+                                    disabled={
+                                        notificationPermission === 'unsupported' || notificationPermission === 'denied'
+                                    }
+                                    onChange={(event) => handleNotificationsChange(event.target.checked)}
+                                />
+                                Notify when a countdown finishes in a background tab
+                            </label>
+                            {notificationPermission === 'denied' && (
+                                <p className="text-xs text-gray-500">
+                                    Notifications are blocked for this site in your browser settings.
+                                </p>
+                            )}
+                        </div>
+                        <button
+                            onClick={handleAlarmTest}
+                            className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                        >
+                            Test alarm
+                        </button>
+                    </div>
                 </div>
 
-                <p className="text-gray-600">
-                    {new Date().toLocaleString('en-US', {
-                        timeZone: timezone,
-                        year: 'numeric',
-                        month: '2-digit',
-                        day: '2-digit',
-                        hour: '2-digit',
-                        minute: '2-digit',
-                        second: '2-digit',
-                        hour12: true
-                    })}
-                </p>
+                <AlarmClockSettings />
+
+                <PresetSettings />
+
+                <GoalSettings />
+
+                <div>
+                    <h4 className="block text-sm font-medium text-gray-700 mb-2">History</h4>
+                    <label className="block text-sm text-gray-600">
+                        Keep deleted sessions in the trash for (days)
+                        <input
+                            type="number"
+                            min={1}
+                            max={365}
+                            value={trashRetentionDays}
+                            onChange={(event) => handleRetentionChange(event.target.value)}
+                            className="mt-1 w-full p-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                    </label>
+                </div>
             </div>
         </div>
     );
@@ -1,60 +1,360 @@
 'use client';
 
-import { useSession } from '../../contexts/SessionContext';
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import { useSession, LogEntry } from '../../contexts/SessionContext';
+import { formatClockDuration, formatDuration } from '../../lib/duration';
+import {
+    getChange,
+    getDailyTotals,
+    getHourlyDistribution,
+    getPercentile,
+    getPeriodTotals,
+    StatsPeriod
+} from '../../lib/session-stats';
+import { formatDateKey, getDateKey } from '../../lib/timezone';
+import { BarChart, CalendarHeatmap, ProgressRing } from '../../components/stats-charts';
+import { describeGoal, getActiveDayStreaks, getGoalProgress } from '../../lib/goals';
+
+const KIND_FILTERS = [
+    { value: 'all', label: 'All sessions' },
+    { value: 'timer', label: 'Timers' },
+    { value: 'stopwatch', label: 'Stopwatch' },
+    { value: 'interval', label: 'Intervals' }
+];
+
+const PERIOD_OPTIONS: { value: StatsPeriod; label: string; count: number; current: string; previous: string }[] = [
+    { value: 'day', label: 'Daily', count: 14, current: 'Today', previous: 'yesterday' },
+    { value: 'week', label: 'Weekly', count: 12, current: 'This week', previous: 'last week' },
+    { value: 'month', label: 'Monthly', count: 12, current: 'This month', previous: 'last month' }
+];
+
+const PERCENTILES = [
+    { value: 25, label: '25th percentile' },
+    { value: 50, label: 'Median' },
+    { value: 75, label: '75th percentile' },
+    { value: 90, label: '90th percentile' }
+];
+
+const TOP_SESSIONS = 3;
+
+// Labels for period buckets, which are keyed by the "YYYY-MM-DD" day they start on
+const formatPeriodLabel = (key: string, period: StatsPeriod, options: Intl.DateTimeFormatOptions = {}) =>
+    new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', {
+        timeZone: 'UTC',
+        ...(period === 'month' ? { month: 'short' } : { month: 'short', day: 'numeric' }),
+        ...options
+    });
+
+const formatStreak = (count: number, period: 'day' | 'week') => `${count} ${period}${count === 1 ? '' : 's'}`;
+
+const formatSessionCount = (count: number) => `${count} ${count === 1 ? 'session' : 'sessions'}`;
+
+const formatChange = (change: number | null) =>
+    change === null ? 'no time before' : `${change >= 0 ? '+' : '−'}${Math.round(Math.abs(change) * 100)}%`;
+
+// Totals per tag (ignoring case), largest first. A session with several tags counts toward
+// each of them; untagged sessions are grouped under ''.
+const getTagBreakdown = (sessions: LogEntry[]) => {
+    const totals = new Map<string, { tag: string; count: number; totalTime: number }>();
+    sessions.forEach((session) => {
+        (session.tags?.length ? session.tags : ['']).forEach((tag) => {
+            const key = tag.toLowerCase();
+            const current = totals.get(key) ?? { tag, count: 0, totalTime: 0 };
+            totals.set(key, {
+                ...current,
+                count: current.count + 1,
+                totalTime: current.totalTime + session.durationMs
+            });
+        });
+    });
+    return Array.from(totals.values()).sort((a, b) => b.totalTime - a.totalTime);
+};
 
 export default function StatsPage() {
-    const { sessions } = useSession();
+    const { sessions: allSessions, timezone, displaySettings, goals } = useSession();
+    const [kindFilter, setKindFilter] = useState('all');
+    const [period, setPeriod] = useState<StatsPeriod>('week');
+
+    const sessions = useMemo(
+        () => allSessions.filter((session) => kindFilter === 'all' || session.kind === kindFilter),
+        [allSessions, kindFilter]
+    );
+    const periodOption = PERIOD_OPTIONS.find((option) => option.value === period);
+    const periodTotals = useMemo(
+        () => getPeriodTotals(sessions, period, timezone, periodOption.count),
+        [sessions, period, timezone, periodOption]
+    );
+    const dailyTotals = useMemo(() => getDailyTotals(sessions, timezone), [sessions, timezone]);
+    const hourly = useMemo(() => getHourlyDistribution(sessions, timezone), [sessions, timezone]);
+    const byDuration = useMemo(() => [...sessions].sort((a, b) => a.durationMs - b.durationMs), [sessions]);
+    const durations = byDuration.map((session) => session.durationMs);
+    const [previousTotal, currentTotal] = periodTotals.slice(-2);
+    // Goals count every session, whatever the type filter
+    const goalProgress = useMemo(
+        () => goals.map((goal) => ({ goal, progress: getGoalProgress(goal, allSessions, timezone) })),
+        [goals, allSessions, timezone]
+    );
+    const activeDays = useMemo(() => getActiveDayStreaks(allSessions, timezone), [allSessions, timezone]);
 
     const calculateStats = () => {
         const totalSessions = sessions.length;
-        const totalTime = sessions.reduce((acc, session) => {
-            // Convert all durations to seconds for consistent calculation
-            const durationInSeconds =
-                session.formattedDuration.includes('M') &&
-                session.formattedDuration.includes('S') &&
-                !session.formattedDuration.includes('H')
-                    ? Math.floor(session.duration / 100) // Convert from centiseconds to seconds
-                    : session.duration; // Already in seconds
-            return acc + durationInSeconds;
-        }, 0);
+        const totalTime = sessions.reduce((acc, session) => acc + session.durationMs, 0);
 
         const averageTime = totalSessions > 0 ? totalTime / totalSessions : 0;
 
-        return { totalSessions, totalTime, averageTime };
-    };
+        const timers = sessions.filter((session) => session.kind === 'timer');
+        const completedTimers = timers.filter((session) => session.completed).length;
 
-    const formatTime = (seconds) => {
-        const h = Math.floor(seconds / 3600)
-            .toString()
-            .padStart(2, '0');
-        const m = Math.floor((seconds % 3600) / 60)
-            .toString()
-            .padStart(2, '0');
-        const s = Math.floor(seconds % 60)
-            .toString()
-            .padStart(2, '0');
-        return `${h}:${m}:${s}`;
+        return { totalSessions, totalTime, averageTime, timerCount: timers.length, completedTimers };
     };
 
     const stats = calculateStats();
+    const tagBreakdown = getTagBreakdown(sessions);
+    const hasTags = tagBreakdown.some((row) => row.tag !== '');
 
     return (
-        <div className="max-w-2xl mx-auto py-12">
+        <div className="max-w-4xl mx-auto py-12">
             <div className="bg-white rounded-lg shadow p-6 space-y-6">
+                <select
+                    aria-label="Filter by type"
+                    value={kindFilter}
+                    onChange={(event) => setKindFilter(event.target.value)}
+                    className="p-2 border border-gray-300 rounded-md text-sm"
+                >
+                    {KIND_FILTERS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className=" p-4 rounded-lg text-center">
                         <div className="text-2xl">{stats.totalSessions}</div>
                         <div className="text-sm text-gray-600">Total Sessions</div>
                     </div>
                     <div className="p-4 rounded-lg text-center">
-                        <div className="text-2xl">{formatTime(stats.totalTime)}</div>
+                        <div className="text-2xl">{formatClockDuration(stats.totalTime)}</div>
                         <div className="text-sm text-gray-600">Total Time</div>
                     </div>
                     <div className="p-4 rounded-lg text-center">
-                        <div className="text-2xl">{formatTime(stats.averageTime)}</div>
+                        <div className="text-2xl">{formatClockDuration(stats.averageTime)}</div>
                         <div className="text-sm text-gray-600">Average Session</div>
                     </div>
                 </div>
+                {(goals.length > 0 || allSessions.length > 0) && (
+                    <section>
+                        <h4 className="mb-3 text-sm font-medium text-gray-700">Goals and streaks</h4>
+                        {goals.length === 0 && (
+                            <p className="mb-3 text-sm text-gray-500">
+                                Set daily or weekly goals on the{' '}
+                                <Link href="/settings" className="text-blue-600 hover:text-blue-800">
+                                    Settings
+                                </Link>{' '}
+                                page to track them here.
+                            </p>
+                        )}
+                        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                            {goalProgress.map(({ goal, progress }) => (
+                                <li key={goal.id} className="flex items-center gap-3">
+                                    <ProgressRing fraction={progress.fraction} reached={progress.reached}>
+                                        {Math.round(progress.fraction * 100)}%
+                                    </ProgressRing>
+                                    <div>
+                                        <div className="font-medium">{describeGoal(goal)}</div>
+                                        <div className="text-gray-600">
+                                            {formatDuration(progress.doneMs)}{' '}
+                                            {goal.period === 'day' ? 'today' : 'this week'}
+                                            {progress.reached && ' · reached'}
+                                        </div>
+                                        <div className="text-gray-500">
+                                            Streak {formatStreak(progress.currentStreak, goal.period)} · best{' '}
+                                            {formatStreak(progress.longestStreak, goal.period)}
+                                        </div>
+                                    </div>
+                                </li>
+                            ))}
+                            <li className="flex items-center gap-3">
+                                <div className="flex h-[72px] w-[72px] shrink-0 items-center justify-center rounded-full bg-gray-50 text-lg font-semibold">
+                                    {activeDays.currentStreak}
+                                </div>
+                                <div>
+                                    <div className="font-medium">Days in a row with a session</div>
+                                    <div className="text-gray-500">
+                                        Best {formatStreak(activeDays.longestStreak, 'day')}
+                                    </div>
+                                </div>
+                            </li>
+                        </ul>
+                    </section>
+                )}
+                {sessions.length > 0 && (
+                    <>
+                        <section>
+                            <div className="mb-3 flex items-center justify-between gap-4">
+                                <h4 className="text-sm font-medium text-gray-700">Time per period</h4>
+                                <div role="tablist" className="flex gap-3 text-sm">
+                                    {PERIOD_OPTIONS.map((option) => (
+                                        <button
+                                            key={option.value}
+                                            role="tab"
+                                            aria-selected={period === option.value}
+                                            onClick={() => setPeriod(option.value)}
+                                            className={
+                                                period === option.value
+                                                    ? 'font-semibold text-gray-900'
+                                                    : 'text-gray-500 hover:text-gray-800'
+                                            }
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <p className="mb-3 text-sm text-gray-600">
+                                {periodOption.current}: {formatDuration(currentTotal.durationMs)} in{' '}
+                                {formatSessionCount(currentTotal.count)} (
+                                {formatChange(getChange(currentTotal.durationMs, previousTotal.durationMs))} vs{' '}
+                                {periodOption.previous}, which had {formatDuration(previousTotal.durationMs)} in{' '}
+                                {previousTotal.count})
+                            </p>
+                            <BarChart
+                                highlightLast
+                                bars={periodTotals.map((total, index) => ({
+                                    key: total.key,
+                                    label:
+                                        period === 'day' && (periodTotals.length - 1 - index) % 2 === 1
+                                            ? ''
+                                            : formatPeriodLabel(total.key, period),
+                                    value: total.durationMs,
+                                    title: `${formatPeriodLabel(total.key, period, { year: 'numeric' })}: ${formatDuration(
+                                        total.durationMs
+                                    )} in ${formatSessionCount(total.count)}`
+                                }))}
+                            />
+                        </section>
+
+                        <section>
+                            <h4 className="mb-3 text-sm font-medium text-gray-700">Past year</h4>
+                            <CalendarHeatmap
+                                totals={dailyTotals}
+                                today={getDateKey(new Date(), timezone)}
+                                formatValue={formatDuration}
+                            />
+                        </section>
+
+                        <section>
+                            <h4 className="mb-3 text-sm font-medium text-gray-700">Time of day (by start time)</h4>
+                            <BarChart
+                                bars={hourly.map((hour) => ({
+                                    key: hour.key,
+                                    label: Number(hour.key) % 3 === 0 ? `${hour.key}h` : '',
+                                    value: hour.durationMs,
+                                    title: `${hour.key}:00–${hour.key}:59: ${formatDuration(hour.durationMs)} in ${formatSessionCount(hour.count)}`
+                                }))}
+                            />
+                        </section>
+
+                        <section className="grid grid-cols-1 sm:grid-cols-2 gap-6 text-sm">
+                            <div>
+                                <h4 className="mb-2 font-medium text-gray-700">Session lengths</h4>
+                                <table className="w-full tabular-nums">
+                                    <tbody>
+                                        <tr>
+                                            <td className="py-0.5 text-gray-600">Shortest</td>
+                                            <td className="py-0.5 text-right">{formatDuration(durations[0])}</td>
+                                        </tr>
+                                        {PERCENTILES.map((percentile) => (
+                                            <tr key={percentile.value}>
+                                                <td className="py-0.5 text-gray-600">{percentile.label}</td>
+                                                <td className="py-0.5 text-right">
+                                                    {formatDuration(
+                                                        Math.round(getPercentile(durations, percentile.value))
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        <tr>
+                                            <td className="py-0.5 text-gray-600">Longest</td>
+                                            <td className="py-0.5 text-right">
+                                                {formatDuration(durations[durations.length - 1])}
+                                            </td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className="space-y-3">
+                                {[
+                                    { title: 'Longest sessions', list: byDuration.slice(-TOP_SESSIONS).reverse() },
+                                    { title: 'Shortest sessions', list: byDuration.slice(0, TOP_SESSIONS) }
+                                ].map(({ title, list }) => (
+                                    <div key={title}>
+                                        <h4 className="mb-1 font-medium text-gray-700">{title}</h4>
+                                        <ol className="space-y-0.5">
+                                            {list.map((session) => (
+                                                <li key={session.id} className="flex justify-between gap-2">
+                                                    <span className="truncate text-gray-600">
+                                                        {formatDateKey(
+                                                            getDateKey(session.startTime, timezone),
+                                                            displaySettings.dateOrder
+                                                        )}{' '}
+                                                        {session.label ?? (
+                                                            <span className="capitalize">{session.kind}</span>
+                                                        )}
+                                                    </span>
+                                                    <span className="tabular-nums">
+                                                        {formatDuration(session.durationMs)}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    </>
+                )}
+                {stats.timerCount > 0 && (
+                    <p className="text-sm text-gray-600 text-center">
+                        {stats.completedTimers} of {stats.timerCount} timers completed (
+                        {Math.round((stats.completedTimers / stats.timerCount) * 100)}%)
+                    </p>
+                )}
+                {hasTags && (
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">By tag</h4>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="text-gray-600">
+                                    <th className="py-1 pr-4 font-semibold">Tag</th>
+                                    <th className="py-1 pr-4 font-semibold text-right">Sessions</th>
+                                    <th className="py-1 pr-4 font-semibold text-right">Total Time</th>
+                                    <th className="py-1 font-semibold text-right">Share</th>
+                                </tr>
+                            </thead>
+                            <tbody className="tabular-nums">
+                                {tagBreakdown.map((row) => (
+                                    <tr key={row.tag}>
+                                        <td className="py-1 pr-4">
+                                            {row.tag ? `#${row.tag}` : <span className="text-gray-500">Untagged</span>}
+                                        </td>
+                                        <td className="py-1 pr-4 text-right">{row.count}</td>
+                                        <td className="py-1 pr-4 text-right">{formatClockDuration(row.totalTime)}</td>
+                                        <td className="py-1 text-right">
+                                            {stats.totalTime > 0
+                                                ? Math.round((row.totalTime / stats.totalTime) * 100)
+                                                : 0}
+                                            %
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="mt-2 text-xs text-gray-500">
+                            Sessions with several tags count toward each, so shares can add up to more than 100%.
+                        </p>
+                    </div>
+                )}
             </div>
         </div>
     );
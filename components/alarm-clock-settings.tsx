@@ -0,0 +1,102 @@
+'use client';
+
+import { useSession, ClockAlarm } from '../contexts/SessionContext';
+import { createAlarmId, describeAlarmDays, getNextAlarmTime, WEEKDAYS } from '../lib/alarms';
+import { formatSessionTime } from '../lib/timezone';
+
+const INPUT_CLASS =
+    'p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Alarm clock editor, on the Settings page and under the timer in clock mode
+export function AlarmClockSettings() {
+    const { alarms, saveAlarm, removeAlarm, timezone, displaySettings } = useSession();
+
+    const toggleDay = (alarm: ClockAlarm, day: number) => {
+        const days = alarm.days.includes(day) ? alarm.days.filter((d) => d !== day) : [...alarm.days, day];
+        saveAlarm({ ...alarm, days: days.sort((a, b) => a - b) });
+    };
+
+    const describeNext = (alarm: ClockAlarm): string => {
+        const next = getNextAlarmTime(alarm, timezone);
+        return next ? `Next: ${formatSessionTime(next, timezone, displaySettings)}` : 'Off';
+    };
+
+    return (
+        <div>
+            <h4 className="block text-sm font-medium text-gray-700 mb-2">Alarms</h4>
+            {alarms.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    No alarms yet. They ring at a time of day in {timezone.replace(/_/g, ' ')}.
+                </p>
+            ) : (
+                <ul className="space-y-3">
+                    {alarms.map((alarm) => (
+                        <li key={alarm.id} className="space-y-1 text-sm text-gray-600">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={alarm.enabled}
+                                    onChange={(event) => saveAlarm({ ...alarm, enabled: event.target.checked })}
+                                    aria-label={`Alarm at ${alarm.time} on`}
+                                />
+                                <input
+                                    type="time"
+                                    value={alarm.time}
+                                    required
+                                    onChange={(event) =>
+                                        event.target.value && saveAlarm({ ...alarm, time: event.target.value })
+                                    }
+                                    aria-label="Alarm time"
+                                    className={INPUT_CLASS}
+                                />
+                                <input
+                                    type="text"
+                                    value={alarm.label ?? ''}
+                                    placeholder="Label"
+                                    maxLength={50}
+                                    onChange={(event) =>
+                                        saveAlarm({ ...alarm, label: event.target.value || undefined })
+                                    }
+                                    aria-label="Alarm label"
+                                    className={`${INPUT_CLASS} grow min-w-32`}
+                                />
+                                <button
+                                    onClick={() => removeAlarm(alarm.id)}
+                                    aria-label={`Remove alarm at ${alarm.time}`}
+                                    className="px-2 text-red-500 hover:text-red-700"
+                                >
+                                    X
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-1">
+                                {WEEKDAYS.map((day) => (
+                                    <button
+                                        key={day.value}
+                                        onClick={() => toggleDay(alarm, day.value)}
+                                        aria-pressed={alarm.days.includes(day.value)}
+                                        className={`w-10 py-0.5 rounded border text-xs ${
+                                            alarm.days.includes(day.value)
+                                                ? 'border-blue-600 bg-blue-600 text-white'
+                                                : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                                        }`}
+                                    >
+                                        {day.label}
+                                    </button>
+                                ))}
+                                <span className="ml-2 text-xs text-gray-500">
+                                    {describeAlarmDays(alarm.days)} · {describeNext(alarm)}
+                                </span>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <button
+                onClick={() => saveAlarm({ id: createAlarmId(), time: '07:00', days: [], enabled: true })}
+                className="mt-4 px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+            >
+                Add alarm
+            </button>
+        </div>
+    );
+}
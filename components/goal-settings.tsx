@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useSession, Goal } from '../contexts/SessionContext';
+import { createGoalId } from '../lib/goals';
+
+const PERIOD_OPTIONS: { value: Goal['period']; label: string }[] = [
+    { value: 'day', label: 'Daily' },
+    { value: 'week', label: 'Weekly' }
+];
+
+const TARGET_FIELDS = [
+    { unit: 'h', label: 'Hours', ms: 3600000, max: 168 },
+    { unit: 'm', label: 'Minutes', ms: 60000, max: 59 }
+] as const;
+
+const INPUT_CLASS =
+    'p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const getTargetPart = (targetMs: number, field: (typeof TARGET_FIELDS)[number]): number => {
+    const whole = Math.floor(targetMs / field.ms);
+    return field.unit === 'h' ? whole : whole % 60;
+};
+
+// Goals editor for the Settings page
+export function GoalSettings() {
+    const { goals, saveGoal, removeGoal, sessions } = useSession();
+    const knownTags = useMemo(
+        () => Array.from(new Set(sessions.flatMap((session) => session.tags ?? []))).sort(),
+        [sessions]
+    );
+
+    const handleTargetChange = (goal: Goal, field: (typeof TARGET_FIELDS)[number], value: string) => {
+        const parsed = parseInt(value, 10);
+        if (isNaN(parsed)) return;
+        const part = Math.min(field.max, Math.max(0, parsed));
+        const targetMs = goal.targetMs + (part - getTargetPart(goal.targetMs, field)) * field.ms;
+        saveGoal({ ...goal, targetMs: Math.max(60000, targetMs) });
+    };
+
+    const handleTagChange = (goal: Goal, value: string) => {
+        const tag = value.replace(/^\s*#/, '');
+        saveGoal({ ...goal, tag: tag.trim() ? tag : undefined });
+    };
+
+    return (
+        <div>
+            <h4 className="block text-sm font-medium text-gray-700 mb-2">Goals</h4>
+            {goals.length === 0 ? (
+                <p className="text-sm text-gray-500">No goals yet. Progress and streaks appear on the Stats page.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {goals.map((goal) => (
+                        <li key={goal.id} className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                            <select
+                                value={goal.period}
+                                onChange={(event) =>
+                                    saveGoal({ ...goal, period: event.target.value as Goal['period'] })
+                                }
+                                aria-label="Goal period"
+                                className={INPUT_CLASS}
+                            >
+                                {PERIOD_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            {TARGET_FIELDS.map((field) => (
+                                <label key={field.unit} className="flex items-center gap-1">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={field.max}
+                                        value={getTargetPart(goal.targetMs, field)}
+                                        onChange={(event) => handleTargetChange(goal, field, event.target.value)}
+                                        aria-label={field.label}
+                                        className={`${INPUT_CLASS} w-16`}
+                                    />
+                                    {field.unit}
+                                </label>
+                            ))}
+                            <input
+                                type="text"
+                                list="goal-tags"
+                                value={goal.tag ?? ''}
+                                placeholder="All sessions"
+                                onChange={(event) => handleTagChange(goal, event.target.value)}
+                                aria-label="Only sessions tagged"
+                                className={`${INPUT_CLASS} grow min-w-32`}
+                            />
+                            <button
+                                onClick={() => removeGoal(goal.id)}
+                                aria-label="Remove goal"
+                                className="px-2 text-red-500 hover:text-red-700"
+                            >
+                                X
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <datalist id="goal-tags">
+                {knownTags.map((tag) => (
+                    <option key={tag} value={tag} />
+                ))}
+            </datalist>
+            <div className="mt-4 flex items-center justify-between gap-4">
+                <button
+                    onClick={() => saveGoal({ id: createGoalId(), period: 'day', targetMs: 2 * 3600000 })}
+                    className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                    Add goal
+                </button>
+                {goals.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                        The timer&apos;s light shows progress toward the first goal while it&apos;s idle.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+import type { Preset } from '../contexts/SessionContext';
+import { formatDuration } from '../lib/duration';
+
+const describePresets = (presets: Preset[]): string =>
+    presets.map((preset) => `${preset.name} (${formatDuration(preset.durationMs)})`).join(', ');
+
+// One-tap countdowns under the timer, plus the offer to add presets from a shared link
+export function PresetBar({
+    presets,
+    sharedPresets,
+    canSave,
+    onStart,
+    onSave,
+    onAddShared,
+    onDismissShared
+}: {
+    presets: Preset[];
+    sharedPresets: Preset[];
+    canSave: boolean;
+    onStart: (preset: Preset) => void;
+    onSave: () => void;
+    onAddShared: () => void;
+    onDismissShared: () => void;
+}) {
+    return (
+        <div className="space-y-2">
+            {sharedPresets.length > 0 && (
+                <div role="status" className="flex flex-wrap items-center justify-center gap-2 text-sm">
+                    <span className="text-gray-700">Shared presets: {describePresets(sharedPresets)}</span>
+                    <button
+                        type="button"
+                        onClick={onAddShared}
+                        className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                    >
+                        Add
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onDismissShared}
+                        className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                    >
+                        Dismiss
+                    </button>
+                </div>
+            )}
+            {(presets.length > 0 || canSave) && (
+                <div role="group" aria-label="Presets" className="flex flex-wrap justify-center gap-2">
+                    {presets.map((preset) => (
+                        <button
+                            key={preset.id}
+                            type="button"
+                            onClick={() => onStart(preset)}
+                            aria-label={`Start ${preset.name}, ${formatDuration(preset.durationMs)}`}
+                            className="px-3 py-1.5 rounded-full bg-gray-100 text-sm text-gray-700 hover:bg-gray-200"
+                        >
+                            {preset.name} <span className="text-gray-500">{formatDuration(preset.durationMs)}</span>
+                        </button>
+                    ))}
+                    {canSave && (
+                        <button
+                            type="button"
+                            onClick={onSave}
+                            className="px-3 py-1.5 rounded-full border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-100"
+                        >
+                            + Save as preset
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
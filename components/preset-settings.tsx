@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession, Preset } from '../contexts/SessionContext';
+import { createPresetId, createPresetShareUrl, PRESET_MAX_MS } from '../lib/presets';
+
+const DURATION_FIELDS = [
+    { unit: 'h', label: 'Hours', ms: 3600000, max: 99 },
+    { unit: 'm', label: 'Minutes', ms: 60000, max: 59 },
+    { unit: 's', label: 'Seconds', ms: 1000, max: 59 }
+] as const;
+
+// Hours are the largest unit, so only minutes and seconds wrap at 60
+const getDurationPart = (durationMs: number, field: (typeof DURATION_FIELDS)[number]): number => {
+    const whole = Math.floor(durationMs / field.ms);
+    return field.unit === 'h' ? whole : whole % 60;
+};
+
+// Presets editor for the Settings page: rename, retime, reorder, remove and share
+export function PresetSettings() {
+    const { presets, savePreset, removePreset, movePreset } = useSession();
+    // Which share link was just copied ('all' for the whole list)
+    const [copied, setCopied] = useState<string | null>(null);
+
+    const handleDurationChange = (preset: Preset, field: (typeof DURATION_FIELDS)[number], value: string) => {
+        const parsed = parseInt(value, 10);
+        if (isNaN(parsed)) return;
+        const part = Math.min(field.max, Math.max(0, parsed));
+        const durationMs = preset.durationMs + (part - getDurationPart(preset.durationMs, field)) * field.ms;
+        savePreset({ ...preset, durationMs: Math.min(PRESET_MAX_MS, Math.max(1000, durationMs)) });
+    };
+
+    const handleAdd = () => {
+        savePreset({ id: createPresetId(), name: `Preset ${presets.length + 1}`, durationMs: 5 * 60000 });
+    };
+
+    const handleCopyLink = async (key: string, shared: Preset[]) => {
+        try {
+            await navigator.clipboard.writeText(createPresetShareUrl(shared));
+            setCopied(key);
+            setTimeout(() => setCopied((current) => (current === key ? null : current)), 2000);
+        } catch (error) {
+            console.error('Error copying share link:', error);
+        }
+    };
+
+    return (
+        <div>
+            <h4 className="block text-sm font-medium text-gray-700 mb-2">Presets</h4>
+            {presets.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    No presets yet. Add one here or save a countdown from the timer page.
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {presets.map((preset, index) => (
+                        <li key={preset.id} className="flex flex-wrap items-center gap-2">
+                            <input
+                                type="text"
+                                value={preset.name}
+                                onChange={(event) => savePreset({ ...preset, name: event.target.value })}
+                                aria-label="Preset name"
+                                maxLength={50}
+                                className="grow min-w-32 p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            {DURATION_FIELDS.map((field) => (
+                                <input
+                                    key={field.unit}
+                                    type="number"
+                                    min={0}
+                                    max={field.max}
+                                    value={getDurationPart(preset.durationMs, field)}
+                                    onChange={(event) => handleDurationChange(preset, field, event.target.value)}
+                                    aria-label={`${preset.name} ${field.label.toLowerCase()}`}
+                                    title={field.label}
+                                    className="w-16 p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                />
+                            ))}
+                            <button
+                                onClick={() => movePreset(preset.id, -1)}
+                                disabled={index === 0}
+                                aria-label={`Move ${preset.name} up`}
+                                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                onClick={() => movePreset(preset.id, 1)}
+                                disabled={index === presets.length - 1}
+                                aria-label={`Move ${preset.name} down`}
+                                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                            >
+                                ↓
+                            </button>
+                            <button
+                                onClick={() => handleCopyLink(preset.id, [preset])}
+                                className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                                {copied === preset.id ? 'Copied' : 'Copy link'}
+                            </button>
+                            <button
+                                onClick={() => removePreset(preset.id)}
+                                aria-label={`Remove ${preset.name}`}
+                                className="px-2 text-red-500 hover:text-red-700 text-sm"
+                            >
+                                X
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="mt-4 flex items-center justify-between">
+                <button
+                    onClick={handleAdd}
+                    className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                    Add preset
+                </button>
+                {presets.length > 1 && (
+                    <button
+                        onClick={() => handleCopyLink('all', presets)}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                        {copied === 'all' ? 'Copied' : 'Copy link to all presets'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
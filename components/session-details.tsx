@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import type { SessionDetails } from '../contexts/SessionContext';
+import { formatTags, parseTags } from '../lib/tags';
+
+const INPUT_CLASS =
+    'mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Label, tags and notes inputs, used for the timer's next session and for logged sessions
+export function SessionDetailsFields({
+    label,
+    tags,
+    notes,
+    onChange
+}: {
+    label: string;
+    tags: string[];
+    notes: string;
+    onChange: (changes: SessionDetails) => void;
+}) {
+    // Tags are edited as text so a trailing comma or space survives while typing
+    const [tagsText, setTagsText] = useState(formatTags(tags));
+    useEffect(() => {
+        setTagsText((current) => (formatTags(parseTags(current)) === formatTags(tags) ? current : formatTags(tags)));
+    }, [tags]);
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-left">
+            <label className="block text-sm text-gray-600">
+                Label
+                <input
+                    type="text"
+                    value={label}
+                    maxLength={50}
+                    onChange={(event) => onChange({ label: event.target.value })}
+                    className={INPUT_CLASS}
+                />
+            </label>
+            <label className="block text-sm text-gray-600">
+                Tags (comma separated)
+                <input
+                    type="text"
+                    value={tagsText}
+                    placeholder="e.g. focus, client-a"
+                    onChange={(event) => {
+                        setTagsText(event.target.value);
+                        onChange({ tags: parseTags(event.target.value) });
+                    }}
+                    className={INPUT_CLASS}
+                />
+            </label>
+            <label className="block text-sm text-gray-600 sm:col-span-2">
+                Notes
+                <textarea
+                    value={notes}
+                    rows={2}
+                    onChange={(event) => onChange({ notes: event.target.value })}
+                    className={INPUT_CLASS}
+                />
+            </label>
+        </div>
+    );
+}
+
+export function TagList({ tags }: { tags?: string[] }) {
+    if (!tags?.length) return null;
+    return (
+        <span className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+                <span key={tag} className="px-1.5 rounded bg-gray-100 text-xs text-gray-600">
+                    #{tag}
+                </span>
+            ))}
+        </span>
+    );
+}
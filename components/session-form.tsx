@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import type { LogEntry, SessionKind } from '../contexts/SessionContext';
+import { SessionDetailsFields } from './session-details';
+import { SessionFields, validateSessionTimes } from '../lib/session-editing';
+import { getDateKey, getTimeKey, zonedTimeToDate } from '../lib/timezone';
+
+const INPUT_CLASS =
+    'mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const KIND_OPTIONS: { value: SessionKind; label: string }[] = [
+    { value: 'timer', label: 'Timer' },
+    { value: 'stopwatch', label: 'Stopwatch' },
+    { value: 'interval', label: 'Interval' }
+];
+
+const DURATION_UNITS = [
+    { key: 'hours', label: 'h', ms: 3600000 },
+    { key: 'minutes', label: 'm', ms: 60000 },
+    { key: 'seconds', label: 's', ms: 1000 }
+] as const;
+
+type DurationFields = Record<(typeof DURATION_UNITS)[number]['key'], string>;
+
+const EMPTY_DURATION: DurationFields = { hours: '', minutes: '', seconds: '' };
+
+const toDurationFields = (durationMs?: number): DurationFields =>
+    durationMs === undefined
+        ? EMPTY_DURATION
+        : {
+              hours: String(Math.floor(durationMs / 3600000)),
+              minutes: String(Math.floor((durationMs % 3600000) / 60000)),
+              seconds: String((durationMs % 60000) / 1000)
+          };
+
+// A negative part makes the whole duration negative, so validation reports it
+const toDurationMs = (fields: DurationFields): number => {
+    const parts = DURATION_UNITS.map((unit) => Number(fields[unit.key] || 0));
+    if (parts.some((part) => part < 0)) return -1;
+    return Math.round(parts.reduce((total, part, index) => total + part * DURATION_UNITS[index].ms, 0));
+};
+
+// Hours, minutes and seconds (with hundredths) fields for one duration
+function DurationInput({
+    legend,
+    value,
+    onChange
+}: {
+    legend: string;
+    value: DurationFields;
+    onChange: (value: DurationFields) => void;
+}) {
+    return (
+        <fieldset className="text-sm text-gray-600">
+            <legend>{legend}</legend>
+            <div className="flex gap-2">
+                {DURATION_UNITS.map((unit) => (
+                    <label key={unit.key} className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={0}
+                            step={unit.key === 'seconds' ? 0.01 : 1}
+                            aria-label={unit.key}
+                            placeholder="0"
+                            value={value[unit.key]}
+                            onChange={(event) => onChange({ ...value, [unit.key]: event.target.value })}
+                            className={`${INPUT_CLASS} w-20`}
+                        />
+                        {unit.label}
+                    </label>
+                ))}
+            </div>
+        </fieldset>
+    );
+}
+
+/**
+ * Start time (read and written in `timezone`), duration, type and details of a session.
+ * Without `session` it starts blank for adding one.
+ */
+export function SessionForm({
+    session,
+    timezone,
+    submitLabel,
+    onSubmit,
+    onCancel
+}: {
+    session?: LogEntry;
+    timezone: string;
+    submitLabel: string;
+    onSubmit: (fields: SessionFields) => void;
+    onCancel: () => void;
+}) {
+    const [initialStart] = useState(() => session?.startTime ?? new Date());
+    const [date, setDate] = useState(() => getDateKey(initialStart, timezone));
+    const [time, setTime] = useState(() => getTimeKey(initialStart, timezone));
+    const [duration, setDuration] = useState(() => toDurationFields(session?.durationMs));
+    const [target, setTarget] = useState(() => toDurationFields(session?.targetDurationMs));
+    const [kind, setKind] = useState<SessionKind>(session?.kind ?? 'stopwatch');
+    const [completed, setCompleted] = useState(session?.completed ?? true);
+    const [details, setDetails] = useState({
+        label: session?.label ?? '',
+        tags: session?.tags ?? [],
+        notes: session?.notes ?? ''
+    });
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const startChanged = date !== getDateKey(initialStart, timezone) || time !== getTimeKey(initialStart, timezone);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        // Unchanged start times keep their sub-second precision
+        const startTime = startChanged ? zonedTimeToDate(date, time, timezone) : initialStart;
+        const durationMs = toDurationMs(duration);
+        const targetDurationMs = kind === 'stopwatch' ? 0 : toDurationMs(target);
+        const nextErrors = validateSessionTimes(startTime, durationMs);
+        if (targetDurationMs < 0) nextErrors.push('The target can’t be negative.');
+        setErrors(nextErrors);
+        if (nextErrors.length > 0) return;
+
+        onSubmit({
+            startTime,
+            durationMs,
+            kind,
+            completed,
+            targetDurationMs: targetDurationMs > 0 ? targetDurationMs : undefined,
+            label: details.label.trim() || undefined,
+            tags: details.tags.length > 0 ? details.tags : undefined,
+            notes: details.notes.trim() || undefined
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} noValidate className="space-y-3 text-left">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block text-sm text-gray-600">
+                    Start date
+                    <input
+                        type="date"
+                        required
+                        value={date}
+                        max={getDateKey(new Date(), timezone)}
+                        onChange={(event) => setDate(event.target.value)}
+                        className={INPUT_CLASS}
+                    />
+                </label>
+                <label className="block text-sm text-gray-600">
+                    Start time ({timezone})
+                    <input
+                        type="time"
+                        required
+                        step={1}
+                        value={time}
+                        onChange={(event) => setTime(event.target.value)}
+                        className={INPUT_CLASS}
+                    />
+                </label>
+                <DurationInput legend="Duration" value={duration} onChange={setDuration} />
+                {kind !== 'stopwatch' && (
+                    <DurationInput legend="Target (optional)" value={target} onChange={setTarget} />
+                )}
+                <label className="block text-sm text-gray-600">
+                    Type
+                    <select
+                        value={kind}
+                        onChange={(event) => setKind(event.target.value as SessionKind)}
+                        className={INPUT_CLASS}
+                    >
+                        {KIND_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 self-end pb-2 text-sm text-gray-600">
+                    <input
+                        type="checkbox"
+                        checked={completed}
+                        onChange={(event) => setCompleted(event.target.checked)}
+                    />
+                    Completed
+                </label>
+            </div>
+            <SessionDetailsFields
+                label={details.label}
+                tags={details.tags}
+                notes={details.notes}
+                onChange={(changes) => setDetails((prev) => ({ ...prev, ...changes }))}
+            />
+            {errors.length > 0 && (
+                <ul role="alert" className="text-sm text-red-600">
+                    {errors.map((error) => (
+                        <li key={error}>{error}</li>
+                    ))}
+                </ul>
+            )}
+            <div className="flex gap-3">
+                <button type="submit" className="px-3 py-1.5 rounded bg-blue-600 text-sm text-white hover:bg-blue-700">
+                    {submitLabel}
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
+
+// Picks the point, measured from the session's start, to cut it in two
+export function SplitSessionForm({ session, onSplit }: { session: LogEntry; onSplit: (offsetMs: number) => void }) {
+    const [offset, setOffset] = useState(() => toDurationFields(Math.floor(session.durationMs / 2000) * 1000));
+    const [error, setError] = useState('');
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const offsetMs = toDurationMs(offset);
+        if (offsetMs <= 0 || offsetMs >= session.durationMs) {
+            setError('Split somewhere between the start and the end of the session.');
+            return;
+        }
+        setError('');
+        onSplit(offsetMs);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} noValidate className="flex flex-wrap items-end gap-3 text-left">
+            <DurationInput legend="Split at (from the start)" value={offset} onChange={setOffset} />
+            <button
+                type="submit"
+                className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+            >
+                Split
+            </button>
+            {error && (
+                <p role="alert" className="w-full text-sm text-red-600">
+                    {error}
+                </p>
+            )}
+        </form>
+    );
+}
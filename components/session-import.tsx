@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import { useSession } from '../contexts/SessionContext';
+import { formatDuration } from '../lib/duration';
+import {
+    ColumnMapping,
+    DURATION_UNITS,
+    DurationUnit,
+    guessColumnMapping,
+    IMPORT_FIELDS,
+    ImportField,
+    ImportRow,
+    markDuplicates,
+    parseCsv,
+    readCsvRows,
+    readJsonRows
+} from '../lib/session-import';
+import { formatSessionTime } from '../lib/timezone';
+import { TimezonePicker } from './timezone-picker';
+
+const FIELD_CLASS =
+    'p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const PREVIEW_ROWS = 100;
+
+type ImportFile = { name: string; format: 'json'; text: string } | { name: string; format: 'csv'; rows: string[][] };
+
+// Reads a CSV or JSON history file, previews what it will add and imports the valid, new sessions
+export function SessionImport({ onClose }: { onClose: () => void }) {
+    const { sessions, trashedSessions, importSessions, timezone, displaySettings } = useSession();
+    const [file, setFile] = useState<ImportFile | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [sourceTimezone, setSourceTimezone] = useState(timezone);
+    const [fileError, setFileError] = useState('');
+    const [imported, setImported] = useState<number | null>(null);
+
+    const handleFile = async (selected: File | undefined) => {
+        setFile(null);
+        setFileError('');
+        setImported(null);
+        if (!selected) return;
+        try {
+            const text = await selected.text();
+            if (selected.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+                setFile({ name: selected.name, format: 'json', text });
+                return;
+            }
+            const rows = parseCsv(text);
+            if (rows.length < 2) {
+                setFileError('This file has no rows after the header.');
+                return;
+            }
+            setFile({ name: selected.name, format: 'csv', rows });
+            setMapping(guessColumnMapping(rows[0], sourceTimezone));
+        } catch (error) {
+            console.error('Error reading import file:', error);
+            setFileError('This file can’t be read.');
+        }
+    };
+
+    const rows = useMemo((): ImportRow[] => {
+        if (!file) return [];
+        try {
+            const read =
+                file.format === 'json'
+                    ? readJsonRows(file.text, sourceTimezone)
+                    : readCsvRows(file.rows, { ...mapping, timezone: sourceTimezone });
+            return markDuplicates(read, [...sessions, ...trashedSessions]);
+        } catch (error) {
+            return [{ line: 0, entry: null, errors: [error.message || 'This file can’t be read.'], duplicate: false }];
+        }
+    }, [file, mapping, sourceTimezone, sessions, trashedSessions]);
+
+    const ready = rows.filter((row) => row.entry && !row.duplicate);
+    const duplicates = rows.filter((row) => row.duplicate).length;
+    const invalid = rows.filter((row) => !row.entry).length;
+
+    const updateColumn = (field: ImportField, value: string) => {
+        setMapping((prev) => ({ ...prev, columns: { ...prev.columns, [field]: value === '' ? null : Number(value) } }));
+    };
+
+    const handleImport = () => {
+        importSessions(ready.map((row) => row.entry));
+        setImported(ready.length);
+        setFile(null);
+    };
+
+    return (
+        <div className="mb-6 rounded border border-gray-200 p-4 space-y-4 text-sm">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="font-semibold text-base">Import sessions</h2>
+                    <p className="text-gray-600">
+                        A JSON export from this app, or a CSV file with a start time and a duration (or end time) per
+                        row. Sessions already in your history are skipped.
+                    </p>
+                </div>
+                <button onClick={onClose} aria-label="Close import" className="text-gray-500 hover:text-gray-800">
+                    ×
+                </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+                <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    aria-label="History file"
+                    onChange={(event) => handleFile(event.target.files?.[0])}
+                />
+            </div>
+            <div className="text-gray-600">
+                <label htmlFor="import-timezone" className="block mb-1">
+                    Times without a zone are in
+                </label>
+                <TimezonePicker
+                    id="import-timezone"
+                    value={sourceTimezone}
+                    onChange={setSourceTimezone}
+                    className={FIELD_CLASS}
+                />
+            </div>
+            {fileError && (
+                <p role="alert" className="text-red-600">
+                    {fileError}
+                </p>
+            )}
+            {imported !== null && (
+                <p role="status" className="text-green-700">
+                    Imported {imported} {imported === 1 ? 'session' : 'sessions'}.
+                </p>
+            )}
+
+            {file?.format === 'csv' && mapping && (
+                <fieldset>
+                    <legend className="mb-2 font-medium text-gray-700">Columns in {file.name}</legend>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {IMPORT_FIELDS.map((field) => (
+                            <label key={field.value} className="block text-gray-600">
+                                {field.label}
+                                <select
+                                    value={mapping.columns[field.value] ?? ''}
+                                    onChange={(event) => updateColumn(field.value, event.target.value)}
+                                    className={`${FIELD_CLASS} mt-1 w-full`}
+                                >
+                                    <option value="">Not imported</option>
+                                    {file.rows[0].map((header, index) => (
+                                        <option key={index} value={index}>
+                                            {header || `Column ${index + 1}`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                        <label className="block text-gray-600">
+                            Plain numbers in duration, target and overtime are
+                            <select
+                                value={mapping.durationUnit}
+                                onChange={(event) =>
+                                    setMapping((prev) => ({
+                                        ...prev,
+                                        durationUnit: event.target.value as DurationUnit
+                                    }))
+                                }
+                                className={`${FIELD_CLASS} mt-1 w-full`}
+                            >
+                                {DURATION_UNITS.map((unit) => (
+                                    <option key={unit.value} value={unit.value}>
+                                        {unit.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                </fieldset>
+            )}
+
+            {file && (
+                <>
+                    <p className="text-gray-700">
+                        {ready.length} ready to import · {duplicates} already in your history · {invalid} with errors
+                    </p>
+                    <div className="max-h-80 overflow-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr>
+                                    <th className="py-1 pr-4 font-semibold">Row</th>
+                                    <th className="py-1 pr-4 font-semibold">Start</th>
+                                    <th className="py-1 pr-4 font-semibold">Type</th>
+                                    <th className="py-1 pr-4 font-semibold">Duration</th>
+                                    <th className="py-1 font-semibold">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                                    <tr key={row.line} className="align-top">
+                                        <td className="py-1 pr-4 text-gray-500">{row.line || '-'}</td>
+                                        <td className="py-1 pr-4">
+                                            {row.entry
+                                                ? formatSessionTime(row.entry.startTime, timezone, displaySettings)
+                                                : '-'}
+                                        </td>
+                                        <td className="py-1 pr-4 capitalize">{row.entry?.kind ?? '-'}</td>
+                                        <td className="py-1 pr-4">
+                                            {row.entry ? formatDuration(row.entry.durationMs) : '-'}
+                                        </td>
+                                        <td className="py-1">
+                                            {row.entry ? (
+                                                row.duplicate ? (
+                                                    <span className="text-gray-500">Duplicate, skipped</span>
+                                                ) : (
+                                                    <span className="text-green-700">Ready</span>
+                                                )
+                                            ) : (
+                                                <ul className="text-red-600">
+                                                    {row.errors.map((error) => (
+                                                        <li key={error}>{error}</li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {rows.length > PREVIEW_ROWS && (
+                            <p className="mt-2 text-gray-500">
+                                Showing the first {PREVIEW_ROWS} of {rows.length} rows.
+                            </p>
+                        )}
+                    </div>
+                    <button
+                        onClick={handleImport}
+                        disabled={ready.length === 0}
+                        className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+                    >
+                        Import {ready.length} {ready.length === 1 ? 'session' : 'sessions'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
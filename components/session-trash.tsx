@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useSession, LogEntry } from '../contexts/SessionContext';
+import { formatDuration } from '../lib/duration';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Trashed sessions for the History page, with restore, permanent delete and empty trash
+export function SessionTrash({ formatTime }: { formatTime: (date: Date) => string }) {
+    const { trashedSessions, restoreSessions, purgeSessions, trashRetentionDays } = useSession();
+    const [confirmingEmpty, setConfirmingEmpty] = useState(false);
+
+    const getDaysLeft = (session: LogEntry) =>
+        Math.max(0, Math.ceil((session.deletedAt + trashRetentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+    if (trashedSessions.length === 0) {
+        return <p className="text-gray-700">The trash is empty.</p>;
+    }
+
+    return (
+        <>
+            <p className="mb-4 text-sm text-gray-600">
+                Sessions in the trash are deleted for good after {trashRetentionDays} days. You can change this on the
+                Settings page.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr>
+                            <th className="py-2 px-4 font-semibold">Date</th>
+                            <th className="py-2 px-4 font-semibold">Type</th>
+                            <th className="py-2 px-4 font-semibold">Duration</th>
+                            <th className="py-2 px-4 font-semibold">Deleted</th>
+                            <th className="py-2">
+                                <span className="sr-only">Actions</span>
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {trashedSessions.map((session) => (
+                            <tr key={session.id}>
+                                <td className="py-2 px-4">{formatTime(session.startTime)}</td>
+                                <td className="py-2 px-4">
+                                    <span className="capitalize">{session.kind}</span>
+                                    {session.label && (
+                                        <span className="block text-xs text-gray-500">{session.label}</span>
+                                    )}
+                                </td>
+                                <td className="py-2 px-4">{formatDuration(session.durationMs)}</td>
+                                <td className="py-2 px-4 text-sm text-gray-600">
+                                    {formatTime(new Date(session.deletedAt))}
+                                    <span className="block text-xs text-gray-500">
+                                        {getDaysLeft(session)} days left
+                                    </span>
+                                </td>
+                                <td className="py-2 whitespace-nowrap text-sm">
+                                    <button
+                                        onClick={() => restoreSessions([session.id])}
+                                        className="mr-3 text-blue-600 hover:text-blue-800"
+                                    >
+                                        Restore
+                                    </button>
+                                    <button
+                                        onClick={() => purgeSessions([session.id])}
+                                        className="text-red-500 hover:text-red-700"
+                                    >
+                                        Delete forever
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-4 flex justify-between text-sm">
+                <button
+                    onClick={() => restoreSessions(trashedSessions.map((session) => session.id))}
+                    className="text-blue-600 hover:text-blue-800"
+                >
+                    Restore all
+                </button>
+                {confirmingEmpty ? (
+                    <span className="flex items-center gap-3">
+                        Delete {trashedSessions.length} sessions for good?
+                        <button
+                            onClick={() => {
+                                purgeSessions(trashedSessions.map((session) => session.id));
+                                setConfirmingEmpty(false);
+                            }}
+                            className="font-semibold text-red-600 hover:text-red-800"
+                        >
+                            Empty trash
+                        </button>
+                        <button onClick={() => setConfirmingEmpty(false)} className="text-gray-600">
+                            Cancel
+                        </button>
+                    </span>
+                ) : (
+                    <button onClick={() => setConfirmingEmpty(true)} className="text-red-600 hover:text-red-800">
+                        Empty trash
+                    </button>
+                )}
+            </div>
+        </>
+    );
+}
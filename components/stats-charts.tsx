@@ -0,0 +1,179 @@
+import { addDaysToKey, getWeekKey } from '../lib/timezone';
+
+export interface Bar {
+    key: string;
+    /** Shown under the bar; leave empty to skip crowded labels */
+    label: string;
+    value: number;
+    /** Tooltip and accessible description */
+    title: string;
+}
+
+// Vertical bars scaled to the largest value; the last bar is highlighted as the current period
+export function BarChart({ bars, highlightLast = false }: { bars: Bar[]; highlightLast?: boolean }) {
+    const max = Math.max(...bars.map((bar) => bar.value), 1);
+    return (
+        <div>
+            <div className="flex h-40 items-end gap-1" role="list">
+                {bars.map((bar, index) => (
+                    <div
+                        key={bar.key}
+                        role="listitem"
+                        title={bar.title}
+                        aria-label={bar.title}
+                        className="flex h-full flex-1 items-end"
+                    >
+                        <div
+                            className={`w-full rounded-t ${
+                                highlightLast && index === bars.length - 1 ? 'bg-blue-600' : 'bg-blue-300'
+                            }`}
+                            style={{ height: `${(bar.value / max) * 100}%`, minHeight: bar.value > 0 ? 2 : 0 }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="mt-1 flex gap-1 text-[10px] text-gray-500" aria-hidden="true">
+                {bars.map((bar) => (
+                    <span key={bar.key} className="flex-1 text-center whitespace-nowrap overflow-visible">
+                        {bar.label}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+const HEATMAP_COLORS = ['bg-gray-100', 'bg-green-200', 'bg-green-400', 'bg-green-600', 'bg-green-800'];
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+const formatDay = (key: string) =>
+    new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', {
+        timeZone: 'UTC',
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+    });
+
+// Levels split the days with any time into quarters, so a few long days don't wash out the rest
+const getLevelThresholds = (values: number[]): number[] => {
+    const sorted = values.filter((value) => value > 0).sort((a, b) => a - b);
+    return [0.25, 0.5, 0.75].map((fraction) => sorted[Math.floor((sorted.length - 1) * fraction)] ?? 0);
+};
+
+/**
+ * GitHub-style grid of the last `weeks` weeks up to `today` ("YYYY-MM-DD"), a column per week
+ * starting on Monday, shaded by time per day.
+ */
+export function CalendarHeatmap({
+    totals,
+    today,
+    weeks = 53,
+    formatValue
+}: {
+    totals: Map<string, number>;
+    today: string;
+    weeks?: number;
+    formatValue: (value: number) => string;
+}) {
+    const firstWeek = addDaysToKey(getWeekKey(today), -(weeks - 1) * 7);
+    const columns = Array.from({ length: weeks }, (_, week) =>
+        Array.from({ length: 7 }, (_, weekday) => addDaysToKey(firstWeek, week * 7 + weekday))
+    );
+    const thresholds = getLevelThresholds(Array.from(totals.values()));
+    const getLevel = (value: number) =>
+        value <= 0 ? 0 : 1 + thresholds.filter((threshold) => value > threshold).length;
+
+    return (
+        <div className="overflow-x-auto">
+            <div className="inline-flex gap-[3px] text-[10px] text-gray-500">
+                <div className="mt-4 grid grid-rows-7 gap-[3px] pr-1">
+                    {WEEKDAY_LABELS.map((label, index) => (
+                        <span key={index} className="h-[11px] leading-[11px]">
+                            {label}
+                        </span>
+                    ))}
+                </div>
+                {columns.map((days, index) => {
+                    const startsMonth = days.find((day) => day.endsWith('-01'));
+                    return (
+                        <div key={days[0]} className="grid grid-rows-[16px_repeat(7,11px)] gap-[3px]">
+                            <span className="whitespace-nowrap">
+                                {startsMonth || index === 0
+                                    ? new Date(`${startsMonth ?? days[0]}T00:00:00Z`).toLocaleDateString('en-US', {
+                                          timeZone: 'UTC',
+                                          month: 'short'
+                                      })
+                                    : ''}
+                            </span>
+                            {days.map((day) => {
+                                const value = totals.get(day) ?? 0;
+                                const title = `${formatDay(day)}: ${value > 0 ? formatValue(value) : 'no sessions'}`;
+                                return day > today ? (
+                                    <span key={day} />
+                                ) : (
+                                    <span
+                                        key={day}
+                                        title={title}
+                                        aria-label={title}
+                                        className={`h-[11px] w-[11px] rounded-sm ${HEATMAP_COLORS[getLevel(value)]}`}
+                                    />
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="mt-2 flex items-center justify-end gap-1 text-[10px] text-gray-500" aria-hidden="true">
+                Less
+                {HEATMAP_COLORS.map((color) => (
+                    <span key={color} className={`h-[11px] w-[11px] rounded-sm ${color}`} />
+                ))}
+                More
+            </div>
+        </div>
+    );
+}
+
+// Circular progress from 0 to 1, with its content centred inside
+export function ProgressRing({
+    fraction,
+    size = 72,
+    reached = false,
+    children
+}: {
+    fraction: number;
+    size?: number;
+    reached?: boolean;
+    children?: React.ReactNode;
+}) {
+    const stroke = 8;
+    const radius = (size - stroke) / 2;
+    const circumference = 2 * Math.PI * radius;
+    return (
+        <div className="relative shrink-0" style={{ width: size, height: size }}>
+            <svg width={size} height={size} className="-rotate-90" aria-hidden="true">
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    strokeWidth={stroke}
+                    className="stroke-gray-100"
+                />
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    strokeWidth={stroke}
+                    strokeLinecap="round"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - Math.min(1, Math.max(0, fraction)))}
+                    className={reached ? 'stroke-green-500' : 'stroke-blue-500'}
+                />
+            </svg>
+            <div className="absolute inset-0 flex items-center justify-center text-xs font-semibold">{children}</div>
+        </div>
+    );
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useSession } from '../contexts/SessionContext';
+
+// Shown on every page while saving is off because the stored history couldn't be read
+export function StorageWarning() {
+    const { storageUnreadable } = useSession();
+    if (!storageUnreadable) return null;
+    return (
+        <p role="alert" className="mb-6 p-3 rounded-md border border-red-300 text-sm text-red-600">
+            Your saved history couldn&rsquo;t be read, possibly because a newer version of the app saved it. Nothing you
+            do here will be saved until it can be read again.
+        </p>
+    );
+}
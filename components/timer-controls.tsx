@@ -0,0 +1,45 @@
+export type TimerButton = 'startStop' | 'mode' | 'format' | 'h' | 'm' | 's' | 'reset' | 'log' | 'lap';
+
+const CONTROLS: { button: TimerButton; label: string; shortcut: string }[] = [
+    { button: 'startStop', label: 'Start', shortcut: 'Space' },
+    { button: 'reset', label: 'Reset', shortcut: 'R' },
+    { button: 'mode', label: 'Next mode', shortcut: 'N' },
+    { button: 'format', label: 'Toggle format', shortcut: 'F' },
+    { button: 'h', label: 'Add hour', shortcut: 'H' },
+    { button: 'm', label: 'Add minute', shortcut: 'M' },
+    { button: 's', label: 'Add second', shortcut: 'S' },
+    { button: 'log', label: 'Log session', shortcut: 'L' },
+    { button: 'lap', label: 'Lap', shortcut: 'Enter' }
+];
+
+// Real buttons mirroring the 3D model, for screen readers and keyboard users. Hidden
+// visually unless `visible` is set.
+export function TimerControls({
+    running,
+    visible,
+    onPress
+}: {
+    running: boolean;
+    visible: boolean;
+    onPress: (button: TimerButton) => void;
+}) {
+    return (
+        <div
+            role="group"
+            aria-label="Timer controls"
+            className={visible ? 'flex flex-wrap justify-center gap-2' : 'sr-only'}
+        >
+            {CONTROLS.map((control) => (
+                <button
+                    key={control.button}
+                    type="button"
+                    onClick={() => onPress(control.button)}
+                    aria-keyshortcuts={control.shortcut}
+                    className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                    {control.button === 'startStop' && running ? 'Stop' : control.label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+export interface TimerListItem {
+    id: string;
+    label: string;
+    /** Shown in place of an empty label, e.g. "Timer 2" */
+    placeholder: string;
+    mode: string;
+    time: string;
+    running: boolean;
+}
+
+// Side panel for the timers that run side by side. The focused one is on the 3D model.
+export function TimerList({
+    items,
+    focusedId,
+    onFocus,
+    onAdd,
+    onRemove,
+    onRename,
+    onStartStop
+}: {
+    items: TimerListItem[];
+    focusedId: string;
+    onFocus: (id: string) => void;
+    onAdd: () => void;
+    onRemove: (id: string) => void;
+    onRename: (id: string, label: string) => void;
+    onStartStop: (id: string) => void;
+}) {
+    return (
+        <aside aria-label="Timers" className="w-full lg:w-64 shrink-0 bg-white rounded-sm px-4 py-6 space-y-3">
+            <h3 className="text-neutral-900">Timers</h3>
+            <ul className="space-y-2">
+                {items.map((item) => {
+                    const focused = item.id === focusedId;
+                    const name = item.label || item.placeholder;
+                    return (
+                        <li
+                            key={item.id}
+                            className={`rounded border p-2 space-y-1 ${
+                                focused ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                            }`}
+                        >
+                            <input
+                                type="text"
+                                value={item.label}
+                                placeholder={item.placeholder}
+                                onChange={(event) => onRename(item.id, event.target.value)}
+                                aria-label={`Name of ${name}`}
+                                className="w-full px-1 py-0.5 text-sm border-b border-transparent bg-transparent focus:outline-none focus:border-gray-400"
+                            />
+                            <div className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => onFocus(item.id)}
+                                    aria-current={focused ? 'true' : undefined}
+                                    aria-label={`Show ${name} on the timer`}
+                                    className="grow text-left text-sm text-gray-600 hover:text-gray-900"
+                                >
+                                    <span className="tabular-nums">{item.time}</span>
+                                    <span className="ml-2 text-xs text-gray-500">{item.mode}</span>
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onStartStop(item.id)}
+                                    aria-label={`${item.running ? 'Stop' : 'Start'} ${name}`}
+                                    className="px-2 py-0.5 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-100"
+                                >
+                                    {item.running ? 'Stop' : 'Start'}
+                                </button>
+                                {items.length > 1 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onRemove(item.id)}
+                                        aria-label={`Remove ${name}`}
+                                        className="text-red-500 hover:text-red-700"
+                                    >
+                                        X
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+            <button
+                type="button"
+                onClick={onAdd}
+                className="w-full px-3 py-1.5 rounded border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-100"
+            >
+                + Add timer
+            </button>
+        </aside>
+    );
+}
@@ -1,8 +1,24 @@
 'use client';
 
-import { memo, useEffect, useState, useRef, useCallback } from 'react';
+import { memo, useEffect, useMemo, useState, useRef, useCallback } from 'react';
 import { Card } from './card';
-import { useSession } from '../contexts/SessionContext';
+import { TimerControls, TimerButton } from './timer-controls';
+import { TimerList, TimerListItem } from './timer-list';
+import { PresetBar } from './preset-bar';
+import { SessionDetailsFields } from './session-details';
+import { WorldClockList } from './world-clock-list';
+import { AlarmClockSettings } from './alarm-clock-settings';
+import { useSession, LogEntry, Lap, IntervalConfig, Preset, SessionDetails, Goal } from '../contexts/SessionContext';
+import { formatClockDuration, formatDuration, formatStopwatchTime } from '../lib/duration';
+import { createPresetId, parseSharedPresets, SHARED_PRESETS_PARAM } from '../lib/presets';
+import { createSessionId } from '../lib/session-editing';
+import { playClick, snoozeAlarm, startAlarm, stopAlarm, unlockAudio } from '../lib/audio';
+import { createBackgroundTimer, BackgroundTimer } from '../lib/background-timer';
+import { notifyIfHidden } from '../lib/notifications';
+import { describeGoal, getGoalProgress } from '../lib/goals';
+import { getNextAlarmTime } from '../lib/alarms';
+import { clearTabStatus, setTabStatus } from '../lib/tab-status';
+import { formatClockTime, formatDayOffset, getDayOffset, getTimezoneAbbreviation } from '../lib/timezone';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 
@@ -17,6 +33,8 @@ const TIMER_CONSTANTS = {
         BUTTON_NORMAL: 0xd3d7d9,
         LIGHT_ACTIVE: 0xff3333,
         LIGHT_INACTIVE: 0x3c3c3c,
+        LIGHT_BREAK: 0x33cc66,
+        LIGHT_GOAL: 0x3399ff,
         DISPLAY_BOX: 0xa1a29b,
         TEXT_NORMAL: '#000000',
         TEXT_INACTIVE: '#888888',
@@ -30,19 +48,23 @@ const TIMER_CONSTANTS = {
         STOPWATCH_HMS_MAX: 99 * 3600 + 59 * 60 + 59,
         STOPWATCH_MS_MAX: 59 * 60 * 100 + 99
     },
-    INTERVALS: { TIMER: 1000, STOPWATCH_HMS: 1000, STOPWATCH_MS: 10, LONG_PRESS: 200, FLASH: 300 },
+    INTERVALS: {
+        TIMER: 1000,
+        STOPWATCH_HMS: 1000,
+        STOPWATCH_MS: 10,
+        LONG_PRESS: 200,
+        LONG_PRESS_DELAY: 400,
+        LONG_PRESS_MIN: 40,
+        FLASH: 300
+    },
+    POINTER: { DRAG_THRESHOLD: 10, LONG_PRESS_ACCELERATION: 0.85 },
     DIMENSIONS: { CARD_WIDTH: 4, CARD_HEIGHT: 6, CARD_THICKNESS: 1, BUTTON_RADIUS: 1.5, BUTTON_HEIGHT: 0.1 }
 } as const;
 
 // --- Types ---
-type TimerMode = 'clock' | 'timer' | 'stopwatch';
+type TimerMode = 'clock' | 'timer' | 'stopwatch' | 'interval';
 type DisplayFormat = 'hms' | 'ms';
-interface LogEntry {
-    id: string;
-    startTime: Date;
-    duration: number;
-    formattedDuration: string;
-}
+type IntervalPhase = 'work' | 'shortBreak' | 'longBreak';
 interface TimerState {
     mode: TimerMode;
     displayFormat: DisplayFormat;
@@ -53,30 +75,341 @@ interface TimerState {
     flash: boolean;
     startTime: Date | null;
     pausedAccum: number;
+    /** When the current run was first started, kept across pauses for logging */
+    sessionStart: Date | null;
+    laps: Lap[];
+    /** Current phase and finished work phases in interval mode */
+    phase: IntervalPhase;
+    workPhasesDone: number;
+    /** Name shown in the timer list; saved with logged sessions along with the tags and notes */
+    label: string;
+    tags: string[];
+    notes: string;
+    /** Which world clock zone clock mode shows, 0 being the home timezone */
+    clockZone: number;
+    /** Set while a finished countdown counts up past zero: the session its overtime is added to */
+    overtimeEntryId: string | null;
 }
 
+// One of several timers kept side by side. The focused one lives in the component's
+// `state`, so its copy here is stale until focus moves away.
+interface TimerInstance {
+    id: string;
+    state: TimerState;
+}
+
+// Order the mode button cycles through
+const NEXT_MODE: Record<TimerMode, TimerMode> = {
+    clock: 'timer',
+    timer: 'stopwatch',
+    stopwatch: 'interval',
+    interval: 'timer'
+};
+const HMS_INCREMENTS = { h: 3600, m: 60, s: 1 } as const;
+
+const KEYBOARD_SHORTCUTS = [
+    { keys: 'Space', action: 'Start / stop' },
+    { keys: 'R', action: 'Reset' },
+    { keys: 'N', action: 'Next mode (or world clock zone)' },
+    { keys: 'F', action: 'Toggle h:m:s / m:s format' },
+    { keys: 'H / M / S', action: 'Add an hour / minute / second (hold Shift to subtract)' },
+    { keys: '0-9', action: 'Type a countdown, e.g. 1 3 0 for 1:30 (Backspace deletes)' },
+    { keys: 'L', action: 'Log session' },
+    { keys: 'Enter', action: 'Record a lap' },
+    { keys: 'Z', action: 'Snooze a ringing alarm' },
+    { keys: '?', action: 'Show or hide this help' }
+];
+
+const MODE_NAMES: Record<TimerMode, string> = {
+    clock: 'Clock',
+    timer: 'Timer',
+    stopwatch: 'Stopwatch',
+    interval: 'Interval'
+};
+
+const INTERVAL_PHASE_LABELS: Record<IntervalPhase, { display: string; name: string }> = {
+    work: { display: 'WORK', name: 'Work' },
+    shortBreak: { display: 'BREAK', name: 'Short break' },
+    longBreak: { display: 'LONG', name: 'Long break' }
+};
+
 // --- Helpers ---
-const formatTimeForLog = (time: number, format: DisplayFormat): string => {
-    if (format === 'hms') {
-        const h = Math.floor(time / 3600)
-            .toString()
-            .padStart(2, '0');
-        const m = Math.floor((time % 3600) / 60)
-            .toString()
-            .padStart(2, '0');
-        const s = Math.floor(time % 60)
-            .toString()
-            .padStart(2, '0');
-        return `${h}:${m}:${s}`;
+const createTimerState = (label: string): TimerState => ({
+    mode: 'clock',
+    displayFormat: 'hms',
+    running: false,
+    paused: false,
+    time: 0,
+    timerSet: 0,
+    flash: false,
+    startTime: null,
+    pausedAccum: 0,
+    sessionStart: null,
+    laps: [],
+    phase: 'work',
+    workPhasesDone: 0,
+    label,
+    tags: [],
+    notes: '',
+    clockZone: 0,
+    overtimeEntryId: null
+});
+
+// The timer's label, tags and notes, leaving out empty ones
+const getSessionDetails = (state: TimerState): SessionDetails => ({
+    ...(state.label ? { label: state.label } : {}),
+    ...(state.tags.length > 0 ? { tags: state.tags } : {}),
+    ...(state.notes ? { notes: state.notes } : {})
+});
+
+// Off when idle, or with a goal, fading from off to blue as it fills and glowing once it's reached
+const setIdleLight = (material: THREE.MeshStandardMaterial, goalFraction: number | null) => {
+    if (goalFraction === null) {
+        material.color.set(TIMER_CONSTANTS.COLORS.LIGHT_INACTIVE);
+        material.emissive.set(0x000000);
+        return;
     }
-    const cs = Math.floor(time * 100)
-        .toString()
-        .padStart(2, '0');
-    const s = Math.floor(time).toString().padStart(2, '0');
-    const m = Math.floor(time / 60)
-        .toString()
-        .padStart(2, '0');
-    return `${m}:${s}`;
+    material.color.lerpColors(
+        new THREE.Color(TIMER_CONSTANTS.COLORS.LIGHT_INACTIVE),
+        new THREE.Color(TIMER_CONSTANTS.COLORS.LIGHT_GOAL),
+        goalFraction
+    );
+    material.emissive.set(goalFraction >= 1 ? TIMER_CONSTANTS.COLORS.LIGHT_GOAL : 0x000000);
+};
+
+// Length of one stopwatch tick: seconds in hms format, centiseconds in ms format
+const getStopwatchUnitMs = (format: DisplayFormat): number => (format === 'hms' ? 1000 : 10);
+
+const isCountdownMode = (mode: TimerMode): boolean => mode === 'timer' || mode === 'interval';
+
+const getPhaseSeconds = (phase: IntervalPhase, config: IntervalConfig): number =>
+    60 *
+    (phase === 'work'
+        ? config.workMinutes
+        : phase === 'shortBreak'
+          ? config.shortBreakMinutes
+          : config.longBreakMinutes);
+
+// Phase that follows `phase`; workPhasesDone already includes a work phase that just ended
+const getNextPhase = (phase: IntervalPhase, workPhasesDone: number, config: IntervalConfig): IntervalPhase => {
+    if (phase !== 'work') return 'work';
+    return workPhasesDone % config.cyclesBeforeLongBreak === 0 ? 'longBreak' : 'shortBreak';
+};
+
+// Reads typed digits right to left as seconds, minutes, then hours ("130" is 1:30)
+const parseDigitEntry = (digits: string): number => {
+    const padded = digits.padStart(6, '0');
+    return (
+        parseInt(padded.slice(0, -4), 10) * 3600 +
+        parseInt(padded.slice(-4, -2), 10) * 60 +
+        parseInt(padded.slice(-2), 10)
+    );
+};
+
+const SPOKEN_UNITS = { H: 'hour', M: 'minute', S: 'second' } as const;
+
+// Expands a display string for screen readers, e.g. "00H01M30S" -> "1 minute 30 seconds"
+const toSpokenTime = (display: string): string => {
+    const parts = Array.from(display.matchAll(/(\d+)([HMS])(\d{2})?/g));
+    if (parts.length === 0) return display;
+    const prefix = display.slice(0, parts[0].index).trim().toLowerCase();
+    const spoken = parts
+        .map(([, value, unit, fraction]) => {
+            const amount = fraction ? `${Number(value)}.${fraction}` : `${Number(value)}`;
+            return Number(amount) > 0 ? `${amount} ${SPOKEN_UNITS[unit]}${amount === '1' ? '' : 's'}` : null;
+        })
+        .filter(Boolean);
+    return [prefix, spoken.length > 0 ? spoken.join(' ') : '0 seconds'].filter(Boolean).join(' ');
+};
+
+const setButtonActiveColor = (mesh: THREE.Mesh | undefined, isActive: boolean) => {
+    if (!mesh) return;
+    const material = mesh.material as THREE.MeshStandardMaterial;
+    material.color.set(isActive ? TIMER_CONSTANTS.COLORS.BUTTON_ACTIVE : TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
+};
+
+// Seconds a countdown has run so far, including the current stretch if it's running
+const getCountdownElapsed = (state: TimerState): number =>
+    state.pausedAccum +
+    (state.running && state.startTime ? Math.floor((Date.now() - state.startTime.getTime()) / 1000) : 0);
+
+const createCountdownEntry = (state: TimerState, elapsed: number, completed: boolean): LogEntry => ({
+    id: createSessionId(),
+    startTime: state.sessionStart ?? new Date(Date.now() - elapsed * 1000),
+    durationMs: elapsed * 1000,
+    kind: state.mode === 'interval' ? 'interval' : 'timer',
+    targetDurationMs: state.timerSet * 1000,
+    completed,
+    ...getSessionDetails(state)
+});
+
+// A timer leaving the display skips the rest of its finish flash
+const parkTimerState = (state: TimerState): TimerState =>
+    state.flash ? { ...state, flash: false, mode: 'clock', timerSet: 0, clockZone: 0 } : state;
+
+// Like the real timer, a countdown that reaches zero counts up from its deadline until it's stopped
+const startOvertime = (state: TimerState, deadline: number, entryId: string): TimerState => ({
+    ...state,
+    running: true,
+    paused: false,
+    time: 0,
+    startTime: new Date(deadline),
+    pausedAccum: 0,
+    sessionStart: null,
+    overtimeEntryId: entryId
+});
+
+// Whole seconds (in ms) a timer has counted up past zero
+const getOvertimeMs = (state: TimerState, now: number): number =>
+    state.startTime ? Math.max(0, Math.floor((now - state.startTime.getTime()) / 1000) * 1000) : 0;
+
+// Wall-clock time (ms) a running countdown reaches zero
+const getCountdownDeadline = (state: TimerState): number =>
+    state.startTime.getTime() + (state.timerSet - state.pausedAccum) * 1000;
+
+// Rolls an interval timer into its next phase at `deadline`, with the entry for a finished work phase
+const advanceIntervalPhase = (
+    current: TimerState,
+    deadline: number,
+    config: IntervalConfig
+): { state: TimerState; entry: LogEntry | null } => {
+    const entry = current.phase === 'work' ? createCountdownEntry(current, current.timerSet, true) : null;
+    const workPhasesDone = current.workPhasesDone + (current.phase === 'work' ? 1 : 0);
+    const phase = getNextPhase(current.phase, workPhasesDone, config);
+    const timerSet = getPhaseSeconds(phase, config);
+    return {
+        state: {
+            ...current,
+            phase,
+            workPhasesDone,
+            timerSet,
+            time: timerSet,
+            running: true,
+            paused: false,
+            startTime: new Date(deadline),
+            sessionStart: new Date(deadline),
+            pausedAccum: 0
+        },
+        entry
+    };
+};
+
+// What the start/stop button does in each mode: the clock starts a stopwatch (or just
+// stops flashing for an alarm), other modes start, pause or resume
+const toggleTimerRunning = (prev: TimerState): TimerState => {
+    if (prev.mode === 'clock' && prev.flash) return { ...prev, flash: false };
+    if (prev.mode === 'clock') {
+        return {
+            ...prev,
+            mode: 'stopwatch',
+            running: true,
+            paused: false,
+            time: 0,
+            pausedAccum: 0,
+            startTime: new Date(),
+            sessionStart: new Date(),
+            laps: []
+        };
+    } else if (isCountdownMode(prev.mode)) {
+        if (prev.overtimeEntryId) {
+            return { ...prev, running: false, paused: false, startTime: null, overtimeEntryId: null };
+        }
+        if (prev.timerSet === 0) return prev;
+        if (prev.paused) {
+            return { ...prev, running: true, paused: false, startTime: new Date() };
+        } else if (prev.running) {
+            const now = new Date();
+            let elapsed = prev.startTime ? Math.floor((now.getTime() - prev.startTime.getTime()) / 1000) : 0;
+            return {
+                ...prev,
+                running: false,
+                paused: true,
+                pausedAccum: prev.pausedAccum + elapsed,
+                startTime: null,
+                time: Math.max(0, prev.timerSet - (prev.pausedAccum + elapsed))
+            };
+        } else {
+            return {
+                ...prev,
+                running: true,
+                paused: false,
+                startTime: new Date(),
+                sessionStart: new Date(),
+                pausedAccum: 0,
+                time: prev.timerSet
+            };
+        }
+    } else {
+        if (prev.paused) {
+            return { ...prev, running: true, paused: false, startTime: new Date() };
+        } else if (prev.running) {
+            let now = new Date();
+            let elapsed = prev.startTime
+                ? Math.floor((now.getTime() - prev.startTime.getTime()) / getStopwatchUnitMs(prev.displayFormat))
+                : 0;
+            return {
+                ...prev,
+                running: false,
+                paused: true,
+                pausedAccum: prev.pausedAccum + elapsed,
+                startTime: null
+            };
+        } else {
+            return {
+                ...prev,
+                running: true,
+                paused: false,
+                startTime: new Date(),
+                sessionStart: new Date(),
+                laps: []
+            };
+        }
+    }
+};
+
+// Catches a timer that isn't on the display up with the wall clock: finished countdowns
+// go into overtime and interval timers move through any phases that ended
+const settleTimer = (
+    state: TimerState,
+    now: number,
+    config: IntervalConfig
+): { state: TimerState; entries: LogEntry[]; finished: boolean } => {
+    const entries: LogEntry[] = [];
+    let current = state;
+    while (isCountdownMode(current.mode) && current.running && current.startTime && !current.overtimeEntryId) {
+        const deadline = getCountdownDeadline(current);
+        if (deadline > now) break;
+        if (current.mode === 'interval') {
+            const next = advanceIntervalPhase(current, deadline, config);
+            if (next.entry) entries.push(next.entry);
+            current = next.state;
+            continue;
+        }
+        const entry = createCountdownEntry(current, current.timerSet, true);
+        entries.push(entry);
+        return { state: startOvertime(current, deadline, entry.id), entries, finished: true };
+    }
+    return { state: current, entries, finished: false };
+};
+
+// Current time of a timer for the timer list, read from the wall clock while it runs
+const describeTimerTime = (state: TimerState, now: number): string => {
+    if (state.mode === 'clock') return '--:--:--';
+    if (state.overtimeEntryId) return `-${formatClockDuration(getOvertimeMs(state, now))}`;
+    if (isCountdownMode(state.mode)) {
+        const seconds = state.running
+            ? Math.max(0, Math.ceil((getCountdownDeadline(state) - now) / 1000))
+            : state.paused
+              ? state.time
+              : state.timerSet;
+        return formatClockDuration(seconds * 1000);
+    }
+    const unitMs = getStopwatchUnitMs(state.displayFormat);
+    const ticks =
+        state.running && state.startTime
+            ? state.pausedAccum + Math.floor((now - state.startTime.getTime()) / unitMs)
+            : state.pausedAccum;
+    return formatStopwatchTime(ticks * unitMs);
 };
 
 const createButtonLabel = (text: string, position: THREE.Vector3 = new THREE.Vector3(0, 0, 0)): THREE.Mesh => {
@@ -121,24 +454,93 @@ const TimerComponent: React.FC = () => {
     const lightMeshRef = useRef<THREE.Mesh | null>(null);
     const buttonMeshRef = useRef<THREE.Mesh | null>(null);
     const logButtonMeshRef = useRef<THREE.Mesh | null>(null);
+    const buttonMeshesRef = useRef<Partial<Record<TimerButton, THREE.Mesh>>>({});
+    // Digits typed so far for direct countdown entry
+    const digitBufferRef = useRef('');
     const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+    const controlsRef = useRef<OrbitControls | null>(null);
+    const cameraLockedRef = useRef(false);
 
     // --- State ---
     const [canvasSize, setCanvasSize] = useState({ width: 800, height: 550 });
-    const [state, setState] = useState<TimerState>({
-        mode: 'clock',
-        displayFormat: 'hms',
-        running: false,
-        paused: false,
-        time: 0,
-        timerSet: 0,
-        flash: false,
-        startTime: null,
-        pausedAccum: 0
-    });
+    const [showShortcuts, setShowShortcuts] = useState(false);
+    const [cameraLocked, setCameraLocked] = useState(false);
+    const [showControls, setShowControls] = useState(false);
+    const [reducedMotion, setReducedMotion] = useState(false);
+    // Screen reader announcements: routine updates are polite, a finished timer is assertive
+    const [announcement, setAnnouncement] = useState('');
+    const [alertMessage, setAlertMessage] = useState('');
+    const lastAnnouncedRef = useRef<number | null>(null);
+    const [alarmStatus, setAlarmStatus] = useState<'off' | 'ringing' | 'snoozed'>('off');
+    const [pageHidden, setPageHidden] = useState(false);
+    const [instances, setInstances] = useState<TimerInstance[]>(() => [{ id: 'timer-1', state: createTimerState('') }]);
+    const [focusedId, setFocusedId] = useState('timer-1');
+    const timerCountRef = useRef(1);
+    // Re-renders the timer list while timers that aren't on the display run
+    const [, setListTick] = useState(0);
+    const [state, setState] = useState<TimerState>(() => createTimerState(''));
+    // Latest state for callbacks that need to read it outside of a setState updater
+    const stateRef = useRef(state);
+    useEffect(() => {
+        stateRef.current = state;
+    }, [state]);
+    // Declared before the effects that tick through them, so they exist when those first run.
+    // One drives the focused timer, one checks the timers in the list and one waits for alarms.
+    const backgroundTimerRef = useRef<BackgroundTimer | null>(null);
+    const listTimerRef = useRef<BackgroundTimer | null>(null);
+    const alarmClockTimerRef = useRef<BackgroundTimer | null>(null);
+    useEffect(() => {
+        const backgroundTimer = createBackgroundTimer();
+        const listTimer = createBackgroundTimer();
+        const alarmClockTimer = createBackgroundTimer();
+        backgroundTimerRef.current = backgroundTimer;
+        listTimerRef.current = listTimer;
+        alarmClockTimerRef.current = alarmClockTimer;
+        return () => {
+            backgroundTimer.dispose();
+            listTimer.dispose();
+            alarmClockTimer.dispose();
+            backgroundTimerRef.current = listTimerRef.current = alarmClockTimerRef.current = null;
+        };
+    }, []);
 
     // Use session context instead of local state
-    const { sessions: logEntries, addSession, clearSessions, removeSession, timezone } = useSession();
+    const {
+        sessions: logEntries,
+        addSession,
+        clearSessions,
+        removeSession,
+        updateSession,
+        timezone,
+        displaySettings,
+        worldClocks,
+        intervalConfig,
+        alarmSettings,
+        presets,
+        savePreset,
+        goals,
+        alarms,
+        saveAlarm,
+        hydrated
+    } = useSession();
+    const intervalConfigRef = useRef(intervalConfig);
+    useEffect(() => {
+        intervalConfigRef.current = intervalConfig;
+    }, [intervalConfig]);
+    const alarmSettingsRef = useRef(alarmSettings);
+    useEffect(() => {
+        alarmSettingsRef.current = alarmSettings;
+    }, [alarmSettings]);
+    // The home timezone, then the world clock zones the mode button steps through in clock mode
+    const clockZones = useMemo(
+        () => [timezone, ...worldClocks.filter((zone) => zone !== timezone)],
+        [timezone, worldClocks]
+    );
+    const clockZonesRef = useRef(clockZones);
+    useEffect(() => {
+        clockZonesRef.current = clockZones;
+    }, [clockZones]);
+    const clockTimezone = clockZones[state.clockZone] ?? timezone;
 
     // --- Derived/Helper Callbacks ---
     const getMaxTime = useCallback((): number => {
@@ -150,18 +552,15 @@ const TimerComponent: React.FC = () => {
 
     const formatTimeForDisplay = useCallback(
         (t: number): string => {
-            if (state.mode === 'clock') {
-                const now = new Date();
-                const options: Intl.DateTimeFormatOptions = {
-                    timeZone: timezone,
-                    hour: '2-digit',
-                    minute: '2-digit',
-                    second: '2-digit',
-                    hour12: true
-                };
-                return now.toLocaleTimeString('en-US', options);
-            }
+            if (state.mode === 'clock') return formatClockTime(new Date(), clockTimezone, displaySettings.hourCycle);
             const time = Math.max(0, Math.floor(t));
+            if (state.mode === 'interval') {
+                const m = Math.floor(time / 60)
+                    .toString()
+                    .padStart(2, '0');
+                const s = (time % 60).toString().padStart(2, '0');
+                return `${INTERVAL_PHASE_LABELS[state.phase].display} ${m}M${s}S`;
+            }
             if (state.mode === 'timer' || (state.mode === 'stopwatch' && state.displayFormat === 'hms')) {
                 const h = Math.floor(time / 3600)
                     .toString()
@@ -170,7 +569,7 @@ const TimerComponent: React.FC = () => {
                     .toString()
                     .padStart(2, '0');
                 const s = (time % 60).toString().padStart(2, '0');
-                return `${h}H${m}M${s}S`;
+                return `${state.overtimeEntryId ? '-' : ''}${h}H${m}M${s}S`;
             }
             // Stopwatch ms format
             const cs = time % 100;
@@ -181,7 +580,7 @@ const TimerComponent: React.FC = () => {
             const s = (totalSeconds % 60).toString().padStart(2, '0');
             return `${m}M${s}S${cs.toString().padStart(2, '0')}`;
         },
-        [state.mode, state.displayFormat, timezone]
+        [state.mode, state.displayFormat, state.phase, state.overtimeEntryId, clockTimezone, displaySettings.hourCycle]
     );
 
     const updateDisplayText = useCallback(
@@ -192,12 +591,27 @@ const TimerComponent: React.FC = () => {
             try {
                 const displayText =
                     state.mode === 'clock' ? formatTimeForDisplay(0) : formatTimeForDisplay(displayTime);
+                // A world clock zone is named under a smaller time, with how far its date is from home's
+                const caption =
+                    state.mode === 'clock' && clockZones.length > 1
+                        ? [
+                              getTimezoneAbbreviation(clockTimezone),
+                              formatDayOffset(getDayOffset(new Date(), clockTimezone, timezone))
+                          ]
+                              .filter(Boolean)
+                              .join(' ')
+                        : '';
+                const largeFont = caption ? 96 : 128;
+                const smallFont = largeFont / 4;
                 ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+                // With reduced motion a flashing display stays red instead of blinking; overtime is red too
                 const textColor = state.flash
-                    ? Date.now() % 600 < 300
+                    ? reducedMotion || Date.now() % 600 < 300
                         ? TIMER_CONSTANTS.COLORS.TEXT_FLASH
                         : TIMER_CONSTANTS.COLORS.TEXT_NORMAL
-                    : TIMER_CONSTANTS.COLORS.TEXT_NORMAL;
+                    : state.overtimeEntryId
+                      ? TIMER_CONSTANTS.COLORS.TEXT_FLASH
+                      : TIMER_CONSTANTS.COLORS.TEXT_NORMAL;
                 ctx.textAlign = 'center';
                 ctx.textBaseline = 'middle';
                 const centerX = ctx.canvas.width / 2,
@@ -205,27 +619,42 @@ const TimerComponent: React.FC = () => {
                 let totalWidth = 0;
                 for (let i = 0; i < displayText.length; i++) {
                     const char = displayText[i];
-                    ctx.font = /[\d:.]/.test(char) ? '128px sans-serif' : '32px sans-serif';
+                    ctx.font = /[\d:.-]/.test(char) ? `${largeFont}px sans-serif` : `${smallFont}px sans-serif`;
                     totalWidth += ctx.measureText(char).width;
                 }
                 let currentX = centerX - totalWidth / 2;
                 for (let i = 0; i < displayText.length; i++) {
                     const char = displayText[i];
                     ctx.fillStyle = textColor;
-                    ctx.font = /[\d:.]/.test(char) ? '128px sans-serif' : '32px sans-serif';
+                    ctx.font = /[\d:.-]/.test(char) ? `${largeFont}px sans-serif` : `${smallFont}px sans-serif`;
                     ctx.textAlign = 'left';
                     ctx.textBaseline = 'top';
                     const charWidth = ctx.measureText(char).width;
-                    const yPosition = centerY - (/[\d:.]/.test(char) ? 64 : 48);
+                    const yPosition = centerY - 64 + (/[\d:.-]/.test(char) ? 0 : largeFont / 8);
                     ctx.fillText(char, currentX, yPosition);
                     currentX += charWidth;
                 }
+                if (caption) {
+                    ctx.font = `${smallFont}px sans-serif`;
+                    ctx.textAlign = 'center';
+                    ctx.textBaseline = 'bottom';
+                    ctx.fillText(caption, centerX, ctx.canvas.height);
+                }
                 texture.needsUpdate = true;
             } catch (error) {
                 console.error('Error updating display text:', error);
             }
         },
-        [formatTimeForDisplay, state.flash, state.mode]
+        [
+            formatTimeForDisplay,
+            state.flash,
+            state.mode,
+            state.overtimeEntryId,
+            reducedMotion,
+            clockZones.length,
+            clockTimezone,
+            timezone
+        ]
     );
 
     const handleFormatToggle = useCallback(() => {
@@ -236,116 +665,436 @@ const TimerComponent: React.FC = () => {
         );
     }, []);
 
+    // Adds the time a finished countdown counted up past zero to the session it logged
+    const recordOvertime = useCallback(
+        (current: TimerState = stateRef.current) => {
+            if (!current.overtimeEntryId) return;
+            updateSession(current.overtimeEntryId, { overtimeMs: getOvertimeMs(current, Date.now()) });
+        },
+        [updateSession]
+    );
+
     const handleStartStop = useCallback(() => {
-        setState((prev) => {
-            if (prev.mode === 'clock') {
-                return {
-                    ...prev,
-                    mode: 'stopwatch',
-                    running: true,
-                    paused: false,
-                    time: 0,
-                    pausedAccum: 0,
-                    startTime: new Date()
-                };
-            } else if (prev.mode === 'timer') {
-                if (prev.timerSet === 0) return prev;
-                if (prev.paused) {
-                    return { ...prev, running: true, paused: false, startTime: new Date() };
-                } else if (prev.running) {
-                    const now = new Date();
-                    let elapsed = prev.startTime ? Math.floor((now.getTime() - prev.startTime.getTime()) / 1000) : 0;
-                    return {
-                        ...prev,
-                        running: false,
-                        paused: true,
-                        pausedAccum: prev.pausedAccum + elapsed,
-                        startTime: null,
-                        time: Math.max(0, prev.timerSet - (prev.pausedAccum + elapsed))
-                    };
-                } else {
-                    return {
-                        ...prev,
-                        running: true,
-                        paused: false,
-                        startTime: new Date(),
-                        pausedAccum: 0,
-                        time: prev.timerSet
-                    };
-                }
-            } else {
-                if (prev.paused) {
-                    return { ...prev, running: true, paused: false, startTime: new Date() };
-                } else if (prev.running) {
-                    let now = new Date();
-                    let elapsed = prev.startTime
-                        ? Math.floor(
-                              (now.getTime() - prev.startTime.getTime()) / (prev.displayFormat === 'hms' ? 1000 : 10)
-                          )
-                        : 0;
-                    return {
-                        ...prev,
-                        running: false,
-                        paused: true,
-                        pausedAccum: prev.pausedAccum + elapsed,
-                        startTime: null
-                    };
-                } else {
-                    return { ...prev, running: true, paused: false, startTime: new Date() };
-                }
+        recordOvertime();
+        setState(toggleTimerRunning);
+    }, [recordOvertime]);
+
+    // --- Goals ---
+    const goalProgress = useMemo(
+        () => goals.map((goal) => ({ goal, progress: getGoalProgress(goal, logEntries, timezone) })),
+        [goals, logEntries, timezone]
+    );
+    // Goals reached in their current period, so each is announced once. The first run after
+    // loading only records them, so goals met before the page opened stay quiet.
+    const reachedGoalsRef = useRef<Set<string> | null>(null);
+    const [reachedGoal, setReachedGoal] = useState<Goal | null>(null);
+    useEffect(() => {
+        if (!hydrated) return;
+        const reached = goalProgress
+            .filter(({ progress }) => progress.reached)
+            .map(({ goal, progress }) => ({ goal, key: `${goal.id}:${progress.periodKey}` }));
+        const previous = reachedGoalsRef.current;
+        reachedGoalsRef.current = new Set(reached.map(({ key }) => key));
+        if (!previous) return;
+        const newlyReached = reached.find(({ key }) => !previous.has(key));
+        if (!newlyReached) return;
+        setReachedGoal(newlyReached.goal);
+        if (alarmSettingsRef.current.notifications) notifyIfHidden('Goal reached', describeGoal(newlyReached.goal));
+    }, [hydrated, goalProgress]);
+    // Progress toward the first goal, shown on the light while the timer is idle
+    const lightGoalFraction = goalProgress[0]?.progress.fraction ?? null;
+    const lightGoalFractionRef = useRef(lightGoalFraction);
+    useEffect(() => {
+        lightGoalFractionRef.current = lightGoalFraction;
+    }, [lightGoalFraction]);
+
+    // Logs a session and offers to add details to it below the timer
+    const [lastLoggedId, setLastLoggedId] = useState<string | null>(null);
+    const [showDetails, setShowDetails] = useState(false);
+    const [showLoggedDetails, setShowLoggedDetails] = useState(false);
+    const [showAlarms, setShowAlarms] = useState(false);
+    const recordSession = useCallback(
+        (entry: LogEntry) => {
+            addSession(entry);
+            setLastLoggedId(entry.id);
+            setShowLoggedDetails(false);
+        },
+        [addSession]
+    );
+
+    // Records a countdown that is abandoned before reaching zero, or the overtime of one that did
+    const logCancelledCountdown = useCallback(
+        (current: TimerState = stateRef.current) => {
+            if (current.overtimeEntryId) {
+                recordOvertime(current);
+                return;
             }
-        });
+            if (!isCountdownMode(current.mode) || (!current.running && !current.paused)) return;
+            // Breaks between interval work phases aren't sessions
+            if (current.mode === 'interval' && current.phase !== 'work') return;
+            const elapsed = getCountdownElapsed(current);
+            if (elapsed > 0) recordSession(createCountdownEntry(current, elapsed, false));
+        },
+        [recordSession, recordOvertime]
+    );
+
+    // Records the stopwatch run so far, if the stopwatch has counted anything
+    const logStopwatchRun = useCallback(
+        (current: TimerState = stateRef.current) => {
+            if (current.mode !== 'stopwatch' || !current.sessionStart || current.time <= 0) return;
+            recordSession({
+                id: createSessionId(),
+                startTime: current.sessionStart,
+                durationMs: current.time * getStopwatchUnitMs(current.displayFormat),
+                kind: 'stopwatch',
+                completed: true,
+                ...(current.laps.length > 0 ? { laps: current.laps } : {}),
+                ...getSessionDetails(current)
+            });
+        },
+        [recordSession]
+    );
+
+    // --- Alarm ---
+    // `repeat` overrides the configured count, e.g. for the short cue between interval phases
+    const ringAlarm = useCallback((repeat?: number) => {
+        const settings = alarmSettingsRef.current;
+        startAlarm({ ...settings, repeat: repeat ?? settings.repeat }, () => setAlarmStatus('off'));
+        setAlarmStatus('ringing');
+    }, []);
+
+    const silenceAlarm = useCallback(() => {
+        stopAlarm();
+        setAlarmStatus('off');
+    }, []);
+
+    const handleSnooze = useCallback(() => {
+        const settings = alarmSettingsRef.current;
+        snoozeAlarm(
+            settings,
+            settings.snoozeMinutes,
+            () => setAlarmStatus('ringing'),
+            () => setAlarmStatus('off')
+        );
+        setAlarmStatus('snoozed');
     }, []);
 
+    useEffect(() => stopAlarm, []);
+
     const handleReset = useCallback(() => {
+        silenceAlarm();
+        logCancelledCountdown();
         setState((prev) => ({
             ...prev,
             mode: 'clock',
+            clockZone: 0,
+            overtimeEntryId: null,
             running: false,
             paused: false,
             time: 0,
             timerSet: 0,
             startTime: null,
-            pausedAccum: 0
+            pausedAccum: 0,
+            sessionStart: null,
+            laps: [],
+            phase: 'work',
+            workPhasesDone: 0
         }));
-    }, []);
+    }, [silenceAlarm, logCancelledCountdown]);
 
-    const formatEasternTime = useCallback(
-        (date: Date): string => {
-            const options: Intl.DateTimeFormatOptions = {
-                timeZone: timezone,
-                year: 'numeric',
-                month: '2-digit',
-                day: '2-digit',
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit',
-                hour12: true
+    const handleModeToggle = useCallback(() => {
+        logCancelledCountdown();
+        setState((prev) => {
+            // Step through the world clock zones before leaving clock mode
+            if (prev.mode === 'clock' && prev.clockZone < clockZonesRef.current.length - 1) {
+                return { ...prev, clockZone: prev.clockZone + 1 };
+            }
+            const mode = NEXT_MODE[prev.mode];
+            return {
+                ...prev,
+                mode,
+                overtimeEntryId: null,
+                running: false,
+                paused: false,
+                time: 0,
+                startTime: null,
+                sessionStart: null,
+                laps: [],
+                phase: 'work',
+                workPhasesDone: 0,
+                // Interval mode starts from the configured work length; leaving it drops that value
+                timerSet:
+                    mode === 'interval'
+                        ? getPhaseSeconds('work', intervalConfigRef.current)
+                        : prev.mode === 'interval'
+                          ? 0
+                          : prev.timerSet
             };
-            const formatted = date.toLocaleString('en-US', options);
-            const [datePart, timePart] = formatted.split(', ');
-            const [month, day, year] = datePart.split('/');
-            return `${year}.${month}.${day} ${timePart}`;
-        },
-        [timezone]
-    );
+        });
+    }, [logCancelledCountdown]);
 
-    const handleLog = useCallback(() => {
+    // Records a split while the stopwatch runs, in the same ticks the display shows
+    const handleLap = useCallback(() => {
         setState((prev) => {
-            if (prev.mode !== 'stopwatch') return prev;
-            if (prev.startTime && prev.time > 0) {
-                const logEntry: LogEntry = {
-                    id: Date.now().toString(),
-                    startTime: prev.startTime,
-                    duration: prev.time,
-                    formattedDuration: formatTimeForLog(prev.time, prev.displayFormat)
-                };
-                addSession(logEntry);
+            if (prev.mode !== 'stopwatch' || !prev.running || !prev.startTime) return prev;
+            const unitMs = getStopwatchUnitMs(prev.displayFormat);
+            const splitMs = (prev.pausedAccum + Math.floor((Date.now() - prev.startTime.getTime()) / unitMs)) * unitMs;
+            const lastSplitMs = prev.laps.length > 0 ? prev.laps[prev.laps.length - 1].splitMs : 0;
+            if (splitMs <= lastSplitMs) return prev;
+            return { ...prev, laps: [...prev.laps, { splitMs, lapMs: splitMs - lastSplitMs }] };
+        });
+    }, []);
+
+    // Adjusts the countdown length while the timer is stopped; negative steps subtract
+    const handleIncrement = useCallback((seconds: number) => {
+        digitBufferRef.current = '';
+        setState((prev) => {
+            if (prev.running || prev.mode !== 'timer') return prev;
+            const newVal = prev.timerSet + seconds;
+            return newVal >= 0 && newVal <= TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX
+                ? { ...prev, timerSet: newVal }
+                : prev;
+        });
+    }, []);
+
+    // Appends a typed digit (or removes the last one) and sets the countdown from them
+    const handleDigitEntry = useCallback((digit: string | null) => {
+        const current = stateRef.current;
+        if (current.running || current.paused || (current.mode !== 'timer' && current.mode !== 'clock')) return;
+        const digits =
+            digit === null ? digitBufferRef.current.slice(0, -1) : (digitBufferRef.current + digit).slice(-6);
+        digitBufferRef.current = digits.replace(/^0+/, '');
+        const timerSet = Math.min(parseDigitEntry(digits), TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX);
+        setState((prev) => ({ ...prev, mode: 'timer', timerSet }));
+    }, []);
+
+    const handleLog = useCallback(() => {
+        const current = stateRef.current;
+        if (isCountdownMode(current.mode)) {
+            // Logging a countdown early records it as cancelled
+            if (current.running || current.paused) handleReset();
+            return;
+        }
+        if (current.mode !== 'stopwatch') return;
+        logStopwatchRun(current);
+        handleReset();
+    }, [handleReset, logStopwatchRun]);
+
+    // Briefly highlights a button the same way for clicks and key presses
+    const animateButtonPress = useCallback((button: TimerButton) => {
+        const meshes = buttonMeshesRef.current;
+        const lightMesh = lightMeshRef.current;
+        setButtonActiveColor(meshes[button], true);
+        // Pressing reset lights up the H/M/S buttons and the indicator light
+        if (button === 'reset') {
+            ['h', 'm', 's'].forEach((key) => setButtonActiveColor(meshes[key], true));
+            (lightMesh?.material as THREE.MeshStandardMaterial)?.color.set(TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE);
+        }
+        setTimeout(() => {
+            setButtonActiveColor(meshes[button], false);
+            if (button === 'reset') {
+                ['h', 'm', 's'].forEach((key) => setButtonActiveColor(meshes[key], false));
+                // Reset always leaves the timer idle
+                if (lightMesh)
+                    setIdleLight(lightMesh.material as THREE.MeshStandardMaterial, lightGoalFractionRef.current);
+            }
+        }, 200);
+    }, []);
+
+    const pressButton = useCallback(
+        (button: TimerButton, { decrement = false } = {}) => {
+            animateButtonPress(button);
+            // Every press counts as the user gesture browsers require before an alarm can sound
+            unlockAudio();
+            if (alarmSettingsRef.current.buttonClicks) playClick(alarmSettingsRef.current.volume);
+            if (button !== 'h' && button !== 'm' && button !== 's') digitBufferRef.current = '';
+            switch (button) {
+                case 'startStop':
+                    silenceAlarm();
+                    handleStartStop();
+                    break;
+                case 'mode':
+                    // Mode button - cycle timer / stopwatch / interval
+                    handleModeToggle();
+                    break;
+                case 'format':
+                    // H/M button - toggle display format
+                    handleFormatToggle();
+                    break;
+                case 'reset':
+                    handleReset();
+                    break;
+                case 'h':
+                case 'm':
+                case 's':
+                    handleIncrement(decrement ? -HMS_INCREMENTS[button] : HMS_INCREMENTS[button]);
+                    break;
+                case 'log':
+                    // Log button - log the current stopwatch session
+                    handleLog();
+                    break;
+                case 'lap':
+                    // Lap button - record a split while the stopwatch runs
+                    handleLap();
+                    break;
             }
-            handleReset();
-            return { ...prev, running: false, paused: false, time: 0, startTime: null };
+        },
+        [
+            animateButtonPress,
+            silenceAlarm,
+            handleStartStop,
+            handleModeToggle,
+            handleFormatToggle,
+            handleReset,
+            handleIncrement,
+            handleLog,
+            handleLap
+        ]
+    );
+
+    const updateTimerDetails = useCallback((changes: SessionDetails) => {
+        setState((prev) => ({ ...prev, ...changes }));
+    }, []);
+
+    // --- Presets ---
+    // Starts the preset's countdown on the focused timer, logging any countdown it replaces
+    const startPreset = useCallback(
+        (preset: Preset) => {
+            unlockAudio();
+            silenceAlarm();
+            logCancelledCountdown();
+            // A preset replaces the stopwatch, so its run is logged rather than lost
+            logStopwatchRun();
+            digitBufferRef.current = '';
+            const seconds = Math.round(preset.durationMs / 1000);
+            setState((prev) => ({
+                ...prev,
+                mode: 'timer',
+                overtimeEntryId: null,
+                running: true,
+                paused: false,
+                flash: false,
+                time: seconds,
+                timerSet: seconds,
+                startTime: new Date(),
+                sessionStart: new Date(),
+                pausedAccum: 0,
+                laps: [],
+                phase: 'work',
+                workPhasesDone: 0,
+                label: prev.label || preset.name
+            }));
+        },
+        [silenceAlarm, logCancelledCountdown, logStopwatchRun]
+    );
+
+    const saveCurrentAsPreset = useCallback(() => {
+        const current = stateRef.current;
+        if (current.mode !== 'timer' || current.timerSet === 0) return;
+        savePreset({
+            id: createPresetId(),
+            name: current.label || formatDuration(current.timerSet * 1000),
+            durationMs: current.timerSet * 1000
         });
-    }, [handleReset, addSession]);
+    }, [savePreset]);
+
+    // Presets from a share link wait for the user to add them, and the link parameter is
+    // dropped so a reload doesn't offer them again
+    const [sharedPresets, setSharedPresets] = useState<Preset[]>([]);
+    useEffect(() => {
+        const url = new URL(window.location.href);
+        const shared = url.searchParams.get(SHARED_PRESETS_PARAM);
+        if (shared === null) return;
+        setSharedPresets(parseSharedPresets(shared));
+        url.searchParams.delete(SHARED_PRESETS_PARAM);
+        window.history.replaceState(null, '', url.toString());
+    }, []);
+
+    const addSharedPresets = useCallback(() => {
+        sharedPresets.forEach(savePreset);
+        setSharedPresets([]);
+    }, [sharedPresets, savePreset]);
+
+    // --- Timer list ---
+    // The focused timer runs in `state`; switching parks it in `instances` and loads another
+    const showTimer = useCallback(
+        (id: string, next: TimerState, list: TimerInstance[]) => {
+            const parked = parkTimerState(stateRef.current);
+            digitBufferRef.current = '';
+            setInstances(
+                list.map((instance) => (instance.id === focusedId ? { ...instance, state: parked } : instance))
+            );
+            setFocusedId(id);
+            setState(next);
+        },
+        [focusedId]
+    );
+
+    const focusTimer = useCallback(
+        (id: string) => {
+            const target = instances.find((instance) => instance.id === id);
+            if (target && id !== focusedId) showTimer(id, target.state, instances);
+        },
+        [instances, focusedId, showTimer]
+    );
+
+    const addTimer = useCallback(() => {
+        const id = `timer-${++timerCountRef.current}`;
+        const next = createTimerState('');
+        showTimer(id, next, [...instances, { id, state: next }]);
+    }, [instances, showTimer]);
+
+    // Removing a timer discards it like a reset, logging a countdown that was under way
+    const removeTimer = useCallback(
+        (id: string) => {
+            if (instances.length <= 1) return;
+            const index = instances.findIndex((instance) => instance.id === id);
+            if (id === focusedId) {
+                logCancelledCountdown();
+                const next = instances[index + 1] ?? instances[index - 1];
+                setFocusedId(next.id);
+                setState(next.state);
+            } else if (index >= 0) {
+                logCancelledCountdown(instances[index].state);
+            }
+            setInstances((prev) => prev.filter((instance) => instance.id !== id));
+        },
+        [instances, focusedId, logCancelledCountdown]
+    );
+
+    const renameTimer = useCallback(
+        (id: string, label: string) => {
+            if (id === focusedId) {
+                setState((prev) => ({ ...prev, label }));
+            } else {
+                setInstances((prev) =>
+                    prev.map((instance) =>
+                        instance.id === id ? { ...instance, state: { ...instance.state, label } } : instance
+                    )
+                );
+            }
+        },
+        [focusedId]
+    );
+
+    const toggleTimer = useCallback(
+        (id: string) => {
+            if (id === focusedId) {
+                pressButton('startStop');
+                return;
+            }
+            unlockAudio();
+            silenceAlarm();
+            const target = instances.find((instance) => instance.id === id);
+            if (target) recordOvertime(target.state);
+            setInstances((prev) =>
+                prev.map((instance) =>
+                    instance.id === id ? { ...instance, state: toggleTimerRunning(instance.state) } : instance
+                )
+            );
+        },
+        [instances, focusedId, pressButton, silenceAlarm, recordOvertime]
+    );
 
     // --- Effects: Three.js scene setup, animation, and cleanup ---
     useEffect(() => {
@@ -378,6 +1127,7 @@ const TimerComponent: React.FC = () => {
 
         const controls = new OrbitControls(camera, renderer.domElement);
         controls.enableDamping = true;
+        controlsRef.current = controls;
 
         // --- Lighting ---
         const ambientLight = new THREE.AmbientLight(0xffffff, 1);
@@ -494,7 +1244,7 @@ const TimerComponent: React.FC = () => {
         // Initial display with proper error handling
         try {
             const initialDisplayTime =
-                state.mode === 'timer' && !state.running && !state.paused ? state.timerSet : state.time;
+                isCountdownMode(state.mode) && !state.running && !state.paused ? state.timerSet : state.time;
             updateDisplayText(initialDisplayTime);
         } catch (error) {
             console.error('Error setting initial display:', error);
@@ -602,6 +1352,13 @@ const TimerComponent: React.FC = () => {
         logButtonMeshRef.current = logButtonMesh;
         scene.add(logButtonMesh);
 
+        // --- Lap Button (mirrors the log button) ---
+        const lapButtonMaterial = logButtonMaterial.clone();
+        const lapButtonMesh = new THREE.Mesh(logButtonGeometry, lapButtonMaterial);
+        lapButtonMesh.position.set(-logButtonX, -boxHeight + 0.5, -0.1);
+        lapButtonMesh.rotation.x = -Math.PI / 4;
+        scene.add(lapButtonMesh);
+
         // --- H/M/S Buttons ---
         const hmsButtonWidth = 0.5;
         const hmsButtonHeight = 0.2;
@@ -763,189 +1520,103 @@ const TimerComponent: React.FC = () => {
         const raycaster = new THREE.Raycaster();
         const pointer = new THREE.Vector2();
 
-        // --- Helper: set button color based on active state ---
-        const setButtonActiveColor = (mesh: THREE.Mesh, isActive: boolean, defaultColor: number) => {
-            if (!mesh) return;
-            const material = mesh.material as THREE.MeshStandardMaterial;
-            material.color.set(isActive ? TIMER_CONSTANTS.COLORS.BUTTON_ACTIVE : defaultColor);
+        buttonMeshesRef.current = {
+            startStop: buttonMesh,
+            mode: modeButtonMesh2,
+            format: modeButtonMesh,
+            h: hButtonMesh,
+            m: mButtonMesh,
+            s: sButtonMesh,
+            reset: resetLabelPlane,
+            log: logButtonMesh,
+            lap: lapButtonMesh
         };
 
-        // --- Main click handler ---
-        const handleClick = (event: MouseEvent) => {
+        // Finds which button, if any, is under the pointer
+        const pickButton = (event: MouseEvent, candidates: TimerButton[]): TimerButton | null => {
             const rect = renderer.domElement.getBoundingClientRect();
             pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
             pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
             raycaster.setFromCamera(pointer, camera);
 
-            const intersects = raycaster.intersectObjects([
-                modeButtonMesh,
-                modeButtonMesh2,
-                hButtonMesh,
-                mButtonMesh,
-                sButtonMesh,
-                buttonMesh,
-                resetLabelPlane,
-                ...(logButtonMeshRef.current ? [logButtonMeshRef.current] : [])
-            ]);
-
-            if (intersects.length > 0) {
-                const clickedObject = intersects[0].object;
-
-                // Highlight the clicked button
-                setButtonActiveColor(clickedObject as THREE.Mesh, true, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-
-                // Clicking reset label should set the light to active
-                if (clickedObject === resetLabelPlane) {
-                    setButtonActiveColor(hButtonMesh, true, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                    setButtonActiveColor(mButtonMesh, true, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                    setButtonActiveColor(sButtonMesh, true, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                    lightMesh.material.color.set(TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE);
-                    setTimeout(() => {
-                        setButtonActiveColor(hButtonMesh, false, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                        setButtonActiveColor(mButtonMesh, false, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                        setButtonActiveColor(sButtonMesh, false, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                        lightMesh.material.color.set(TIMER_CONSTANTS.COLORS.LIGHT_INACTIVE);
-                    }, 200);
-                }
-                // Reset color after a short delay
-                setTimeout(() => {
-                    setButtonActiveColor(clickedObject as THREE.Mesh, false, TIMER_CONSTANTS.COLORS.BUTTON_DEFAULT);
-                }, 200);
-
-                // Handle specific button logic
-                if (clickedObject === buttonMesh) {
-                    handleStartStop();
-                } else if (clickedObject === modeButtonMesh2) {
-                    // Mode button - toggle between timer and stopwatch
-                    setState((prevState) => ({
-                        ...prevState,
-                        mode: prevState.mode === 'timer' ? 'stopwatch' : 'timer',
-                        running: false,
-                        paused: false,
-                        time: 0,
-                        startTime: null
-                    }));
-                } else if (clickedObject === modeButtonMesh) {
-                    // H/M button - toggle display format
-                    handleFormatToggle();
-                } else if (clickedObject === resetLabelPlane) {
-                    // Reset button - reset time and stop
-                    handleReset();
-                } else if (clickedObject === hButtonMesh) {
-                    // H button - increment hours
-                    setState((prevState) => {
-                        if (!prevState.running && prevState.mode === 'timer') {
-                            const maxTime =
-                                prevState.mode === 'timer'
-                                    ? TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX
-                                    : prevState.displayFormat === 'hms'
-                                      ? TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_HMS_MAX
-                                      : TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_MS_MAX;
-                            const newVal = prevState.timerSet + 3600;
-                            return {
-                                ...prevState,
-                                timerSet: newVal <= maxTime ? newVal : prevState.timerSet
-                            };
-                        }
-                        return prevState;
-                    });
-                } else if (clickedObject === mButtonMesh) {
-                    // M button - increment minutes
-                    setState((prevState) => {
-                        if (!prevState.running && prevState.mode === 'timer') {
-                            const maxTime =
-                                prevState.mode === 'timer'
-                                    ? TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX
-                                    : prevState.displayFormat === 'hms'
-                                      ? TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_HMS_MAX
-                                      : TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_MS_MAX;
-                            const newVal = prevState.timerSet + 60;
-                            return {
-                                ...prevState,
-                                timerSet: newVal <= maxTime ? newVal : prevState.timerSet
-                            };
-                        }
-                        return prevState;
-                    });
-                } else if (clickedObject === sButtonMesh) {
-                    // S button - increment seconds
-                    setState((prevState) => {
-                        if (!prevState.running && prevState.mode === 'timer') {
-                            const maxTime =
-                                prevState.mode === 'timer'
-                                    ? TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX
-                                    : prevState.displayFormat === 'hms'
-                                      ? TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_HMS_MAX
-                                      : TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_MS_MAX;
-                            const newVal = prevState.timerSet + 1;
-                            return {
-                                ...prevState,
-                                timerSet: newVal <= maxTime ? newVal : prevState.timerSet
-                            };
-                        }
-                        return prevState;
-                    });
-                } else if (clickedObject === logButtonMeshRef.current) {
-                    // Log button - log the current stopwatch session
-                    handleLog();
-                }
-            }
+            const meshes = buttonMeshesRef.current;
+            const intersects = raycaster.intersectObjects(candidates.map((button) => meshes[button]));
+            if (intersects.length === 0) return null;
+            return candidates.find((button) => meshes[button] === intersects[0].object) ?? null;
         };
 
-        renderer.domElement.addEventListener('click', handleClick);
+        // --- Pointer handling: taps, long presses and camera drags ---
+        // Works the same for mouse, touch and pen. A press that starts on a button never
+        // rotates the camera; it fires on release, or repeats with increasing speed while
+        // an H/M/S button is held.
+        let activePress: { button: TimerButton; pointerId: number; x: number; y: number; repeated: boolean } | null =
+            null;
 
-        // --- Mouse down handler for long press ---
-        const handleMouseDown = (event: MouseEvent) => {
-            const rect = renderer.domElement.getBoundingClientRect();
-            pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-            pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-            raycaster.setFromCamera(pointer, camera);
+        const stopLongPress = () => {
+            Object.values(buttonPressRef.current).forEach((timeoutId) => {
+                if (timeoutId) clearTimeout(timeoutId);
+            });
+            buttonPressRef.current = {};
+        };
 
-            const intersects = raycaster.intersectObjects([hButtonMesh, mButtonMesh, sButtonMesh]);
-
-            if (intersects.length > 0) {
-                const clickedObject = intersects[0].object;
-                let increment = 0;
-
-                if (clickedObject === hButtonMesh) increment = 3600;
-                else if (clickedObject === mButtonMesh) increment = 60;
-                else if (clickedObject === sButtonMesh) increment = 1;
-
-                if (increment > 0) {
-                    const intervalId = setInterval(() => {
-                        setState((prevState) => {
-                            if (!prevState.running && prevState.mode === 'timer') {
-                                const maxTime =
-                                    prevState.mode === 'timer'
-                                        ? TIMER_CONSTANTS.TIME_LIMITS.TIMER_MAX
-                                        : prevState.displayFormat === 'hms'
-                                          ? TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_HMS_MAX
-                                          : TIMER_CONSTANTS.TIME_LIMITS.STOPWATCH_MS_MAX;
-                                const newVal = prevState.timerSet + increment;
-                                return {
-                                    ...prevState,
-                                    timerSet: newVal <= maxTime ? newVal : prevState.timerSet
-                                };
-                            }
-                            return prevState;
-                        });
-                    }, TIMER_CONSTANTS.INTERVALS.LONG_PRESS);
-
-                    buttonPressRef.current[clickedObject.uuid] = intervalId;
-                }
+        const endPress = () => {
+            stopLongPress();
+            activePress = null;
+            controls.enabled = !cameraLockedRef.current;
+        };
+
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!event.isPrimary || activePress) return;
+            const button = pickButton(event, Object.keys(buttonMeshesRef.current) as TimerButton[]);
+            if (!button) return;
+
+            // Runs in the capture phase, before OrbitControls sees the event
+            controls.enabled = false;
+            renderer.domElement.setPointerCapture(event.pointerId);
+            activePress = { button, pointerId: event.pointerId, x: event.clientX, y: event.clientY, repeated: false };
+
+            if (button in HMS_INCREMENTS) {
+                let delay: number = TIMER_CONSTANTS.INTERVALS.LONG_PRESS;
+                const repeat = () => {
+                    if (!activePress) return;
+                    activePress.repeated = true;
+                    pressButton(button);
+                    delay = Math.max(
+                        TIMER_CONSTANTS.INTERVALS.LONG_PRESS_MIN,
+                        delay * TIMER_CONSTANTS.POINTER.LONG_PRESS_ACCELERATION
+                    );
+                    buttonPressRef.current.longPress = setTimeout(repeat, delay);
+                };
+                buttonPressRef.current.longPress = setTimeout(repeat, TIMER_CONSTANTS.INTERVALS.LONG_PRESS_DELAY);
             }
         };
 
-        const handleMouseUp = () => {
-            Object.values(buttonPressRef.current).forEach((intervalId) => {
-                if (intervalId) clearInterval(intervalId);
-            });
-            buttonPressRef.current = {};
+        // Moving too far turns the press into a cancelled gesture
+        const handlePointerMove = (event: PointerEvent) => {
+            if (!activePress || event.pointerId !== activePress.pointerId) return;
+            const distance = Math.hypot(event.clientX - activePress.x, event.clientY - activePress.y);
+            if (distance > TIMER_CONSTANTS.POINTER.DRAG_THRESHOLD) endPress();
+        };
+
+        const handlePointerUp = (event: PointerEvent) => {
+            if (!activePress || event.pointerId !== activePress.pointerId) return;
+            const { button, repeated } = activePress;
+            endPress();
+            if (!repeated && pickButton(event, [button]) === button) pressButton(button);
         };
 
-        renderer.domElement.addEventListener('mousedown', handleMouseDown);
-        renderer.domElement.addEventListener('mouseup', handleMouseUp);
-        renderer.domElement.addEventListener('mouseleave', handleMouseUp);
+        const handlePointerCancel = (event: PointerEvent) => {
+            if (activePress && event.pointerId === activePress.pointerId) endPress();
+        };
+
+        // Keeps long presses on touch screens from opening the context menu
+        const handleContextMenu = (event: MouseEvent) => event.preventDefault();
+
+        renderer.domElement.addEventListener('pointerdown', handlePointerDown, { capture: true });
+        renderer.domElement.addEventListener('pointermove', handlePointerMove);
+        renderer.domElement.addEventListener('pointerup', handlePointerUp);
+        renderer.domElement.addEventListener('pointercancel', handlePointerCancel);
+        renderer.domElement.addEventListener('contextmenu', handleContextMenu);
 
         // --- Animation Loop ---
         const animate = () => {
@@ -970,16 +1641,16 @@ const TimerComponent: React.FC = () => {
         // --- Cleanup ---
         return () => {
             resizeObserver.disconnect();
-            renderer.domElement.removeEventListener('click', handleClick);
-            renderer.domElement.removeEventListener('mousedown', handleMouseDown);
-            renderer.domElement.removeEventListener('mouseup', handleMouseUp);
-            renderer.domElement.removeEventListener('mouseleave', handleMouseUp);
-
-            // Clear button press intervals
-            Object.values(buttonPressRef.current).forEach((intervalId) => {
-                if (intervalId) clearInterval(intervalId);
-            });
-            buttonPressRef.current = {};
+            renderer.domElement.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+            renderer.domElement.removeEventListener('pointermove', handlePointerMove);
+            renderer.domElement.removeEventListener('pointerup', handlePointerUp);
+            renderer.domElement.removeEventListener('pointercancel', handlePointerCancel);
+            renderer.domElement.removeEventListener('contextmenu', handleContextMenu);
+
+            // Clear pending long presses
+            stopLongPress();
+            controls.dispose();
+            controlsRef.current = null;
 
             // Cancel animation frame
             if (animationIdRef.current) {
@@ -1009,7 +1680,8 @@ const TimerComponent: React.FC = () => {
                     sButtonGeometry,
                     buttonGeometry,
                     buttonTop,
-                    lightGeometry
+                    lightGeometry,
+                    logButtonGeometry
                 ].forEach((geometry) => {
                     if (geometry?.dispose) geometry.dispose();
                 });
@@ -1031,7 +1703,9 @@ const TimerComponent: React.FC = () => {
                     lightMaterial,
                     modeLabelMaterial,
                     modeLabelMaterial2,
-                    labelMaterial
+                    labelMaterial,
+                    logButtonMaterial,
+                    lapButtonMaterial
                 ].forEach((material) => {
                     if (material?.dispose) material.dispose();
                 });
@@ -1047,6 +1721,7 @@ const TimerComponent: React.FC = () => {
                 lightMeshRef.current = null;
                 buttonMeshRef.current = null;
                 logButtonMeshRef.current = null;
+                buttonMeshesRef.current = {};
             } catch (error) {
                 console.error('Error during Three.js cleanup:', error);
             }
@@ -1061,68 +1736,343 @@ const TimerComponent: React.FC = () => {
         }
     }, [canvasSize]);
 
+    // --- Reduced motion preference ---
+    useEffect(() => {
+        const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+        const update = () => setReducedMotion(query.matches);
+        update();
+        query.addEventListener('change', update);
+        return () => query.removeEventListener('change', update);
+    }, []);
+
+    // --- Screen reader announcements ---
+    const displayTime = isCountdownMode(state.mode) && !state.running && !state.paused ? state.timerSet : state.time;
+    const spokenTime =
+        state.mode === 'clock'
+            ? ''
+            : state.overtimeEntryId
+              ? `${toSpokenTime(formatTimeForDisplay(displayTime).slice(1))} over`
+              : toSpokenTime(formatTimeForDisplay(displayTime));
+    const spokenTimeRef = useRef(spokenTime);
+    spokenTimeRef.current = spokenTime;
+
+    // Mode and start/stop changes
+    useEffect(() => {
+        const time = spokenTimeRef.current;
+        if (state.mode === 'clock') {
+            const zones = clockZonesRef.current;
+            setAnnouncement(zones.length > 1 ? `Clock, ${zones[state.clockZone] ?? zones[0]}` : 'Clock');
+        } else if (state.running) {
+            setAnnouncement(`${state.mode} running, ${time}`);
+        } else if (state.paused) {
+            setAnnouncement(`${state.mode} paused at ${time}`);
+        } else {
+            setAnnouncement(`${state.mode} mode, ${time}`);
+        }
+    }, [state.mode, state.running, state.paused, state.clockZone]);
+
+    // Periodic updates while running: every minute, then every 10 seconds and each of the
+    // last 5 seconds of a countdown
+    useEffect(() => {
+        if (!state.running) {
+            lastAnnouncedRef.current = null;
+            return;
+        }
+        const seconds =
+            state.mode === 'stopwatch' && state.displayFormat === 'ms' ? Math.floor(state.time / 100) : state.time;
+        if (seconds === lastAnnouncedRef.current) return;
+        lastAnnouncedRef.current = seconds;
+        const countdown = isCountdownMode(state.mode) && !state.overtimeEntryId;
+        const due =
+            seconds > 0 &&
+            (seconds % 60 === 0 || (countdown && (seconds <= 5 || (seconds <= 30 && seconds % 10 === 0))));
+        if (due) setAnnouncement(spokenTimeRef.current);
+    }, [state.time, state.running, state.mode, state.displayFormat, state.overtimeEntryId]);
+
+    useEffect(() => {
+        setAlertMessage(state.overtimeEntryId ? 'Timer finished' : '');
+    }, [state.overtimeEntryId]);
+
+    // Interval phases change without stopping, so announce them separately
+    useEffect(() => {
+        const current = stateRef.current;
+        if (current.mode === 'interval' && current.running) {
+            setAlertMessage(`${INTERVAL_PHASE_LABELS[state.phase].name} started`);
+        }
+    }, [state.phase, state.workPhasesDone]);
+
+    // --- Camera lock ---
+    // A locked camera snaps back to the front view and lets vertical swipes scroll the page.
+    useEffect(() => {
+        cameraLockedRef.current = cameraLocked;
+        const controls = controlsRef.current;
+        if (!controls) return;
+        controls.enabled = !cameraLocked;
+        if (cameraLocked) controls.reset();
+        (controls.domElement as HTMLElement).style.touchAction = cameraLocked ? 'pan-y' : 'none';
+    }, [cameraLocked]);
+
     // --- Stopwatch effect ---
+    // Frames drive the display; the background timer keeps it moving once a second while
+    // the tab is hidden and frames are paused.
     useEffect(() => {
-        if (state.mode !== 'stopwatch') return;
+        if (state.mode !== 'stopwatch' || !state.running || !state.startTime) return;
+        const startTime = state.startTime;
         let animationFrame: number | null = null;
-        const update = () => {
-            if (state.running && state.startTime) {
-                const now = new Date();
-                const elapsed = Math.floor(
-                    (now.getTime() - state.startTime.getTime()) / (state.displayFormat === 'hms' ? 1000 : 10)
-                );
-                setState((prev) => ({ ...prev, time: prev.pausedAccum + elapsed }));
-                animationFrame = requestAnimationFrame(update);
-            }
+        const step = () => {
+            const elapsed = Math.floor((Date.now() - startTime.getTime()) / getStopwatchUnitMs(state.displayFormat));
+            setState((prev) => ({ ...prev, time: prev.pausedAccum + elapsed }));
         };
-        if (state.running && state.startTime) animationFrame = requestAnimationFrame(update);
+        const frame = () => {
+            step();
+            animationFrame = requestAnimationFrame(frame);
+        };
+        animationFrame = requestAnimationFrame(frame);
+        backgroundTimerRef.current?.start(step);
         return () => {
             if (animationFrame) cancelAnimationFrame(animationFrame);
+            backgroundTimerRef.current?.stop();
         };
     }, [state.running, state.startTime, state.displayFormat, state.pausedAccum, state.mode]);
 
+    // --- Overtime effect ---
+    // Counts up in whole seconds from the deadline of a countdown that reached zero
+    useEffect(() => {
+        if (!state.overtimeEntryId || !state.startTime) return;
+        const startTime = state.startTime;
+        let animationFrame: number | null = null;
+        const step = () => {
+            const elapsed = Math.floor((Date.now() - startTime.getTime()) / 1000);
+            setState((prev) => (prev.time === elapsed ? prev : { ...prev, time: elapsed }));
+        };
+        const frame = () => {
+            step();
+            animationFrame = requestAnimationFrame(frame);
+        };
+        animationFrame = requestAnimationFrame(frame);
+        backgroundTimerRef.current?.start(step);
+        return () => {
+            if (animationFrame) cancelAnimationFrame(animationFrame);
+            backgroundTimerRef.current?.stop();
+        };
+    }, [state.overtimeEntryId, state.startTime]);
+
     // --- Timer countdown effect ---
+    // Completion is checked against the wall-clock deadline on every frame and on every
+    // background tick, so a countdown finishes on time even in a hidden tab.
     useEffect(() => {
-        if (state.mode !== 'timer') return;
+        if (!isCountdownMode(state.mode) || !state.running || !state.startTime || state.overtimeEntryId) return;
+        const deadline = state.startTime.getTime() + (state.timerSet - state.pausedAccum) * 1000;
         let animationFrame: number | null = null;
-        const update = () => {
-            if (state.running && state.startTime) {
-                const now = new Date();
-                const elapsed = Math.floor((now.getTime() - state.startTime.getTime()) / 1000);
-                const remaining = Math.max(0, state.timerSet - (state.pausedAccum + elapsed));
-                setState((prev) => ({ ...prev, time: remaining }));
-                if (remaining === 0) {
-                    setState((prev) => ({
-                        ...prev,
-                        running: false,
-                        paused: false,
-                        flash: true,
-                        time: 0,
-                        startTime: null,
-                        pausedAccum: 0
-                    }));
-                } else {
-                    animationFrame = requestAnimationFrame(update);
+        let finished = false;
+        const step = () => {
+            if (finished) return;
+            const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+            setState((prev) => ({ ...prev, time: remaining }));
+            if (remaining > 0) return;
+            finished = true;
+            if (animationFrame) cancelAnimationFrame(animationFrame);
+            if (state.mode === 'interval') {
+                // Log finished work phases and roll straight into the next phase, timed from
+                // the deadline rather than from whenever this tick arrived
+                const next = advanceIntervalPhase(stateRef.current, deadline, intervalConfig);
+                if (next.entry) recordSession(next.entry);
+                setState(next.state);
+                ringAlarm(1);
+                if (alarmSettingsRef.current.notifications) {
+                    notifyIfHidden(`${INTERVAL_PHASE_LABELS[next.state.phase].name} started`);
+                }
+            } else {
+                const entry = createCountdownEntry(stateRef.current, state.timerSet, true);
+                recordSession(entry);
+                ringAlarm();
+                if (alarmSettingsRef.current.notifications) {
+                    notifyIfHidden(
+                        `${stateRef.current.label || 'Timer'} finished`,
+                        formatClockDuration(state.timerSet * 1000)
+                    );
                 }
+                setState((prev) => startOvertime(prev, deadline, entry.id));
             }
         };
-        if (state.running && state.startTime) animationFrame = requestAnimationFrame(update);
+        const frame = () => {
+            step();
+            if (!finished) animationFrame = requestAnimationFrame(frame);
+        };
+        animationFrame = requestAnimationFrame(frame);
+        backgroundTimerRef.current?.start(step, deadline);
         return () => {
+            finished = true;
             if (animationFrame) cancelAnimationFrame(animationFrame);
+            backgroundTimerRef.current?.stop();
+        };
+    }, [
+        state.running,
+        state.startTime,
+        state.timerSet,
+        state.pausedAccum,
+        state.mode,
+        state.overtimeEntryId,
+        recordSession,
+        intervalConfig,
+        ringAlarm
+    ]);
+
+    // --- Timers in the list ---
+    // Timers off the display are checked once a second and at their next deadline, so they
+    // finish, log and ring on time while another timer is shown.
+    useEffect(() => {
+        const running = instances.filter((instance) => instance.id !== focusedId && instance.state.running);
+        if (running.length === 0) return;
+        const deadlines = running
+            .filter(
+                (instance) =>
+                    isCountdownMode(instance.state.mode) && instance.state.startTime && !instance.state.overtimeEntryId
+            )
+            .map((instance) => getCountdownDeadline(instance.state));
+        const tick = () => {
+            const now = Date.now();
+            setListTick(now);
+            const settled = new Map<string, TimerState>();
+            const finished: string[] = [];
+            let entries: LogEntry[] = [];
+            running.forEach((instance) => {
+                const result = settleTimer(instance.state, now, intervalConfigRef.current);
+                if (result.state === instance.state) return;
+                settled.set(instance.id, result.state);
+                entries = entries.concat(result.entries);
+                if (result.finished) {
+                    const index = instances.indexOf(instance);
+                    finished.push(instance.state.label || `Timer ${index + 1}`);
+                }
+            });
+            if (settled.size === 0) return;
+            setInstances((prev) =>
+                prev.map((instance) =>
+                    settled.has(instance.id) ? { ...instance, state: settled.get(instance.id) } : instance
+                )
+            );
+            entries.forEach(recordSession);
+            if (finished.length > 0) {
+                const message = `${finished.join(', ')} finished`;
+                ringAlarm();
+                setAlertMessage(message);
+                if (alarmSettingsRef.current.notifications) notifyIfHidden(message);
+            } else {
+                ringAlarm(1);
+            }
+        };
+        listTimerRef.current?.start(tick, deadlines.length > 0 ? Math.min(...deadlines) : undefined);
+        return () => listTimerRef.current?.stop();
+    }, [instances, focusedId, recordSession, ringAlarm]);
+
+    // --- Alarm clock ---
+    // Waits for the earliest enabled alarm and rings it, flashing the display if it's showing
+    // the clock. One-off alarms turn themselves off once they've rung.
+    useEffect(() => {
+        if (!hydrated) return;
+        const scheduled = alarms
+            .map((alarm) => ({ alarm, ringsAt: getNextAlarmTime(alarm, timezone) }))
+            .filter((item) => item.ringsAt !== null);
+        if (scheduled.length === 0) return;
+        const deadline = Math.min(...scheduled.map((item) => item.ringsAt.getTime()));
+        const tick = () => {
+            const now = Date.now();
+            const due = scheduled.filter((item) => item.ringsAt.getTime() <= now);
+            if (due.length === 0) return;
+            const message = due.map(({ alarm }) => `${alarm.label || 'Alarm'} ${alarm.time}`).join(', ');
+            due.forEach(({ alarm }) => {
+                if (alarm.days.length === 0) saveAlarm({ ...alarm, enabled: false });
+            });
+            ringAlarm();
+            setAlertMessage(message);
+            if (alarmSettingsRef.current.notifications) notifyIfHidden(message);
+            setState((prev) => (prev.mode === 'clock' ? { ...prev, flash: true } : prev));
+            // Repeating alarms move on to their next ring
+            scheduled.forEach((item) => {
+                if (due.includes(item)) item.ringsAt = getNextAlarmTime(item.alarm, timezone, new Date(now));
+            });
+            const next = scheduled.filter((item) => item.ringsAt !== null && item.alarm.days.length > 0);
+            if (next.length === 0) {
+                alarmClockTimerRef.current?.stop();
+                return;
+            }
+            alarmClockTimerRef.current?.start(tick, Math.min(...next.map((item) => item.ringsAt.getTime())));
         };
-    }, [state.running, state.startTime, state.timerSet, state.pausedAccum, state.mode]);
+        alarmClockTimerRef.current?.start(tick, deadline);
+        return () => alarmClockTimerRef.current?.stop();
+    }, [hydrated, alarms, timezone, saveAlarm, ringAlarm]);
+
+    // --- Keep an idle interval phase in line with the configured lengths ---
+    useEffect(() => {
+        setState((prev) =>
+            prev.mode === 'interval' && !prev.running && !prev.paused
+                ? { ...prev, timerSet: getPhaseSeconds(prev.phase, intervalConfig) }
+                : prev
+        );
+    }, [intervalConfig]);
 
     // --- Display text update effect ---
     useEffect(() => {
         const ctx = canvasCtxRef.current,
             texture = textureRef.current;
         if (ctx && texture) {
-            const displayTime = state.mode === 'timer' && !state.running && !state.paused ? state.timerSet : state.time;
+            const displayTime =
+                isCountdownMode(state.mode) && !state.running && !state.paused ? state.timerSet : state.time;
             updateDisplayText(displayTime);
         }
     }, [state.time, state.timerSet, state.mode, state.running, state.paused, updateDisplayText]);
 
-    // --- Flashing effect when timer ends ---
+    // --- Tab title and favicon while hidden ---
+    useEffect(() => {
+        const updateHidden = () => setPageHidden(document.hidden);
+        updateHidden();
+        document.addEventListener('visibilitychange', updateHidden);
+        return () => document.removeEventListener('visibilitychange', updateHidden);
+    }, []);
+
+    useEffect(() => {
+        if (!pageHidden) {
+            clearTabStatus();
+        } else if (alarmStatus === 'ringing') {
+            setTabStatus('Timer finished', 1);
+        } else if (state.overtimeEntryId) {
+            setTabStatus(`-${formatClockDuration(state.time * 1000)} Timer`, 1);
+        } else if (isCountdownMode(state.mode) && (state.running || state.paused)) {
+            const label = state.mode === 'interval' ? INTERVAL_PHASE_LABELS[state.phase].name : 'Timer';
+            const color = `#${new THREE.Color(
+                state.phase === 'work' ? TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE : TIMER_CONSTANTS.COLORS.LIGHT_BREAK
+            ).getHexString()}`;
+            setTabStatus(
+                `${formatClockDuration(state.time * 1000)} ${label}${state.paused ? ' (paused)' : ''}`,
+                state.timerSet > 0 ? state.time / state.timerSet : 0,
+                color
+            );
+        } else if (state.mode === 'stopwatch' && (state.running || state.paused)) {
+            const elapsedMs = state.time * getStopwatchUnitMs(state.displayFormat);
+            setTabStatus(
+                `${formatClockDuration(elapsedMs)} Stopwatch${state.paused ? ' (paused)' : ''}`,
+                (elapsedMs % 60000) / 60000
+            );
+        } else {
+            clearTabStatus();
+        }
+    }, [
+        pageHidden,
+        alarmStatus,
+        state.mode,
+        state.running,
+        state.paused,
+        state.time,
+        state.timerSet,
+        state.phase,
+        state.displayFormat,
+        state.overtimeEntryId
+    ]);
+
+    useEffect(() => clearTabStatus, []);
+
+    // --- Flashing effect when an alarm rings ---
     useEffect(() => {
         let flashInterval: NodeJS.Timeout | null = null,
             stopFlashTimeout: NodeJS.Timeout | null = null;
@@ -1132,12 +2082,12 @@ const TimerComponent: React.FC = () => {
                     texture = textureRef.current;
                 if (ctx && texture) {
                     const displayTime =
-                        state.mode === 'timer' && !state.running && !state.paused ? state.timerSet : state.time;
+                        isCountdownMode(state.mode) && !state.running && !state.paused ? state.timerSet : state.time;
                     updateDisplayText(displayTime);
                 }
             }, TIMER_CONSTANTS.INTERVALS.FLASH);
             stopFlashTimeout = setTimeout(() => {
-                setState((prev) => ({ ...prev, flash: false, mode: 'clock', timerSet: 0 }));
+                setState((prev) => ({ ...prev, flash: false, mode: 'clock', timerSet: 0, clockZone: 0 }));
             }, 3000);
         }
         return () => {
@@ -1148,7 +2098,7 @@ const TimerComponent: React.FC = () => {
 
     // --- Reset time to timerSet when stopped ---
     useEffect(() => {
-        if (!state.running && !state.paused && state.mode === 'timer' && !state.flash) {
+        if (!state.running && !state.paused && isCountdownMode(state.mode) && !state.flash) {
             setState((prev) => ({ ...prev, time: prev.timerSet }));
         }
     }, [state.timerSet, state.running, state.paused, state.mode, state.flash]);
@@ -1161,16 +2111,23 @@ const TimerComponent: React.FC = () => {
             const mat = lightMesh.material as THREE.MeshStandardMaterial;
             if (state.flash) {
                 const flashColor =
-                    Date.now() % 1000 < 500
+                    reducedMotion || Date.now() % 1000 < 500
                         ? TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE
                         : TIMER_CONSTANTS.COLORS.LIGHT_INACTIVE;
                 mat.color.set(flashColor);
                 mat.emissive.set(flashColor);
             } else {
-                mat.color.set(
-                    state.running ? TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE : TIMER_CONSTANTS.COLORS.LIGHT_INACTIVE
-                );
-                mat.emissive.set(state.running ? TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE : 0x000000);
+                // Interval breaks light up green instead of red
+                const activeColor =
+                    state.mode === 'interval' && state.phase !== 'work'
+                        ? TIMER_CONSTANTS.COLORS.LIGHT_BREAK
+                        : TIMER_CONSTANTS.COLORS.LIGHT_ACTIVE;
+                if (state.running) {
+                    mat.color.set(activeColor);
+                    mat.emissive.set(activeColor);
+                } else {
+                    setIdleLight(mat, lightGoalFraction);
+                }
             }
         }
         if (buttonMesh) {
@@ -1178,9 +2135,9 @@ const TimerComponent: React.FC = () => {
             mat.color.set(state.running ? TIMER_CONSTANTS.COLORS.BUTTON_PRESSED : TIMER_CONSTANTS.COLORS.BUTTON_NORMAL);
             buttonMesh.position.z = state.running ? 0.55 : 0.6;
         }
-    }, [state.running, state.flash]);
+    }, [state.running, state.flash, state.mode, state.phase, reducedMotion, lightGoalFraction]);
 
-    // --- ET clock update ---
+    // --- Clock update ---
     useEffect(() => {
         if (state.mode !== 'clock') return;
         let interval: NodeJS.Timeout | null = null;
@@ -1193,12 +2150,293 @@ const TimerComponent: React.FC = () => {
         };
     }, [state.mode, updateDisplayText]);
 
+    // --- Keyboard shortcuts ---
+    useEffect(() => {
+        const keyButtons: Record<string, TimerButton> = {
+            ' ': 'startStop',
+            r: 'reset',
+            n: 'mode',
+            f: 'format',
+            h: 'h',
+            m: 'm',
+            s: 's',
+            l: 'log',
+            enter: 'lap'
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (event.altKey || event.ctrlKey || event.metaKey) return;
+            if (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+
+            const key = event.key.toLowerCase();
+            // Leave Space/Enter to activate a focused DOM button
+            if (target.tagName === 'BUTTON' && (key === ' ' || key === 'enter')) return;
+            if (key === '?') {
+                setShowShortcuts((prev) => !prev);
+            } else if (key === 'escape') {
+                setShowShortcuts(false);
+            } else if (key === 'z' && alarmStatus === 'ringing') {
+                handleSnooze();
+            } else if (/^[0-9]$/.test(key)) {
+                handleDigitEntry(key);
+            } else if (key === 'backspace') {
+                handleDigitEntry(null);
+            } else if (keyButtons[key]) {
+                const button = keyButtons[key];
+                // Holding H/M/S repeats like a long press; other keys fire once
+                if (event.repeat && !(button in HMS_INCREMENTS)) return;
+                pressButton(button, { decrement: event.shiftKey });
+            } else {
+                return;
+            }
+            event.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [pressButton, handleDigitEntry, handleSnooze, alarmStatus]);
+
     // --- Render ---
+    const lastLogged = lastLoggedId ? logEntries.find((entry) => entry.id === lastLoggedId) : undefined;
+    const now = Date.now();
+    const timerItems: TimerListItem[] = instances.map((instance, index) => {
+        const timerState = instance.id === focusedId ? state : instance.state;
+        return {
+            id: instance.id,
+            label: timerState.label,
+            placeholder: `Timer ${index + 1}`,
+            mode: `${MODE_NAMES[timerState.mode]}${timerState.paused ? ' (paused)' : timerState.overtimeEntryId ? ' (overtime)' : ''}`,
+            time: describeTimerTime(timerState, now),
+            running: timerState.running
+        };
+    });
+
     return (
-        <div className="w-full space-y-6">
-            <Card title="" className="flex items-center justify-center p-4">
-                <div ref={mountRef} className="w-full max-w-4xl relative" style={{ aspectRatio: '800/550' }}></div>
+        <div className="w-full flex flex-col lg:flex-row gap-6">
+            <Card title="" className="grow flex items-center justify-center p-4">
+                <div className="w-full max-w-4xl relative">
+                    <div
+                        ref={mountRef}
+                        className="w-full select-none"
+                        style={{ aspectRatio: '800/550' }}
+                        aria-hidden="true"
+                    ></div>
+                    {state.mode === 'interval' && (
+                        <div className="absolute top-2 left-2 bg-white/90 rounded shadow px-3 py-2 text-sm">
+                            {INTERVAL_PHASE_LABELS[state.phase].name}
+                            {state.phase === 'work' &&
+                                ` · cycle ${(state.workPhasesDone % intervalConfig.cyclesBeforeLongBreak) + 1} of ${
+                                    intervalConfig.cyclesBeforeLongBreak
+                                }`}
+                        </div>
+                    )}
+                    {state.mode === 'clock' && clockZones.length > 1 && (
+                        <div className="absolute top-2 left-2 bg-white/90 rounded shadow px-3 py-2 text-sm">
+                            <WorldClockList
+                                zones={clockZones}
+                                activeIndex={state.clockZone}
+                                hourCycle={displaySettings.hourCycle}
+                            />
+                        </div>
+                    )}
+                    {state.laps.length > 0 && (
+                        <div className="absolute top-2 right-2 max-h-[60%] overflow-y-auto bg-white/90 rounded shadow p-3 text-sm">
+                            <table className="tabular-nums">
+                                <thead>
+                                    <tr className="text-gray-500">
+                                        <th className="pr-4 font-normal text-left">Lap</th>
+                                        <th className="pr-4 font-normal text-right">Lap time</th>
+                                        <th className="font-normal text-right">Split</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {state.laps
+                                        .map((lap, index) => (
+                                            <tr key={index}>
+                                                <td className="pr-4">{index + 1}</td>
+                                                <td className="pr-4 text-right">{formatStopwatchTime(lap.lapMs)}</td>
+                                                <td className="text-right">{formatStopwatchTime(lap.splitMs)}</td>
+                                            </tr>
+                                        ))
+                                        .reverse()}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    <div className="absolute bottom-2 left-2 flex gap-2">
+                        <button
+                            onClick={() => setCameraLocked((prev) => !prev)}
+                            className="px-2 h-7 rounded-full bg-white/90 shadow text-xs text-gray-600 hover:text-gray-900"
+                            aria-pressed={cameraLocked}
+                        >
+                            {cameraLocked ? 'Unlock camera' : 'Lock camera'}
+                        </button>
+                        <button
+                            onClick={() => setShowControls((prev) => !prev)}
+                            className="px-2 h-7 rounded-full bg-white/90 shadow text-xs text-gray-600 hover:text-gray-900"
+                            aria-pressed={showControls}
+                        >
+                            {showControls ? 'Hide controls' : 'Show controls'}
+                        </button>
+                    </div>
+                    <button
+                        onClick={() => setShowShortcuts((prev) => !prev)}
+                        className="absolute bottom-2 right-2 w-7 h-7 rounded-full bg-white/90 shadow text-sm text-gray-600 hover:text-gray-900"
+                        aria-label="Keyboard shortcuts"
+                        aria-expanded={showShortcuts}
+                    >
+                        ?
+                    </button>
+                    {showShortcuts && (
+                        <div
+                            role="dialog"
+                            aria-label="Keyboard shortcuts"
+                            className="absolute bottom-11 right-2 bg-white/95 rounded shadow p-4 text-sm"
+                        >
+                            <table>
+                                <tbody>
+                                    {KEYBOARD_SHORTCUTS.map((shortcut) => (
+                                        <tr key={shortcut.keys}>
+                                            <td className="pr-4 py-0.5 font-semibold whitespace-nowrap">
+                                                {shortcut.keys}
+                                            </td>
+                                            <td className="py-0.5 text-gray-600">{shortcut.action}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+                {alarmStatus !== 'off' && (
+                    <div className="flex items-center justify-center gap-2 text-sm">
+                        <span className="text-gray-700">
+                            {alarmStatus === 'ringing'
+                                ? 'Alarm ringing'
+                                : `Snoozed for ${alarmSettings.snoozeMinutes} min`}
+                        </span>
+                        {alarmStatus === 'ringing' && (
+                            <button
+                                onClick={handleSnooze}
+                                aria-keyshortcuts="Z"
+                                className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                            >
+                                Snooze
+                            </button>
+                        )}
+                        <button
+                            onClick={silenceAlarm}
+                            className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                        >
+                            {alarmStatus === 'ringing' ? 'Stop' : 'Cancel snooze'}
+                        </button>
+                    </div>
+                )}
+                {reachedGoal && (
+                    <div role="status" className="flex items-center justify-center gap-2 text-sm">
+                        <span className="text-green-700">Goal reached: {describeGoal(reachedGoal)}</span>
+                        <button
+                            onClick={() => setReachedGoal(null)}
+                            aria-label="Dismiss"
+                            className="px-2 text-gray-500 hover:text-gray-800"
+                        >
+                            ×
+                        </button>
+                    </div>
+                )}
+                <PresetBar
+                    presets={presets}
+                    sharedPresets={sharedPresets}
+                    canSave={
+                        state.mode === 'timer' &&
+                        state.timerSet > 0 &&
+                        !presets.some((preset) => preset.durationMs === state.timerSet * 1000)
+                    }
+                    onStart={startPreset}
+                    onSave={saveCurrentAsPreset}
+                    onAddShared={addSharedPresets}
+                    onDismissShared={() => setSharedPresets([])}
+                />
+                <div className="text-sm space-y-3">
+                    <div className="flex flex-wrap items-center justify-center gap-4">
+                        <button
+                            onClick={() => setShowDetails((prev) => !prev)}
+                            aria-expanded={showDetails}
+                            className="text-gray-600 hover:text-gray-900"
+                        >
+                            {showDetails ? '▾' : '▸'} Session details
+                        </button>
+                        {state.mode === 'clock' && (
+                            <button
+                                onClick={() => setShowAlarms((prev) => !prev)}
+                                aria-expanded={showAlarms}
+                                className="text-gray-600 hover:text-gray-900"
+                            >
+                                {showAlarms ? '▾' : '▸'} Alarms
+                                {alarms.some((alarm) => alarm.enabled) &&
+                                    ` (${alarms.filter((alarm) => alarm.enabled).length} on)`}
+                            </button>
+                        )}
+                        {lastLogged && (
+                            <span className="flex items-center gap-2 text-gray-600">
+                                Logged {formatDuration(lastLogged.durationMs)}
+                                {lastLogged.label && ` (${lastLogged.label})`}
+                                <button
+                                    onClick={() => setShowLoggedDetails((prev) => !prev)}
+                                    aria-expanded={showLoggedDetails}
+                                    className="text-blue-600 hover:text-blue-800"
+                                >
+                                    {showLoggedDetails ? 'Done' : 'Edit details'}
+                                </button>
+                                <button
+                                    onClick={() => setLastLoggedId(null)}
+                                    aria-label="Dismiss"
+                                    className="text-gray-400 hover:text-gray-700"
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        )}
+                    </div>
+                    {showDetails && (
+                        <div className="space-y-1">
+                            <p className="text-xs text-gray-500">
+                                Saved with every session this timer logs until you change them.
+                            </p>
+                            <SessionDetailsFields
+                                label={state.label}
+                                tags={state.tags}
+                                notes={state.notes}
+                                onChange={updateTimerDetails}
+                            />
+                        </div>
+                    )}
+                    {state.mode === 'clock' && showAlarms && <AlarmClockSettings />}
+                    {lastLogged && showLoggedDetails && (
+                        <SessionDetailsFields
+                            label={lastLogged.label ?? ''}
+                            tags={lastLogged.tags ?? []}
+                            notes={lastLogged.notes ?? ''}
+                            onChange={(changes) => updateSession(lastLogged.id, changes)}
+                        />
+                    )}
+                </div>
+                <TimerControls running={state.running} visible={showControls} onPress={pressButton} />
+                <p className="sr-only" aria-live="polite" aria-atomic="true">
+                    {announcement}
+                </p>
+                <p className="sr-only" role="alert">
+                    {alertMessage}
+                </p>
             </Card>
+            <TimerList
+                items={timerItems}
+                focusedId={focusedId}
+                onFocus={focusTimer}
+                onAdd={addTimer}
+                onRemove={removeTimer}
+                onRename={renameTimer}
+                onStartStop={toggleTimer}
+            />
         </div>
     );
 };
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { detectTimezone, getTimezoneLabel, getTimezones } from '../lib/timezone';
+
+// Names match with or without underscores, so "new york" finds America/New_York
+const normalize = (text: string) => text.toLowerCase().replace(/_/g, ' ');
+
+// Search box over every IANA zone, with a shortcut back to the browser's own zone
+export function TimezonePicker({
+    id,
+    value,
+    onChange,
+    className
+}: {
+    id?: string;
+    value: string;
+    onChange: (timezone: string) => void;
+    className: string;
+}) {
+    const [query, setQuery] = useState('');
+    const [detected, setDetected] = useState<string | null>(null);
+    const options = useMemo(() => getTimezones().map((zone) => ({ value: zone, label: getTimezoneLabel(zone) })), []);
+
+    // Read on the client only, so the server render doesn't guess the visitor's zone
+    useEffect(() => {
+        setDetected(detectTimezone(''));
+    }, []);
+
+    const search = normalize(query.trim());
+    const matches = search ? options.filter((option) => normalize(option.label).includes(search)) : options;
+    // The selected zone stays listed so the select never shows something else
+    const shown = matches.some((option) => option.value === value)
+        ? matches
+        : [{ value, label: getTimezoneLabel(value) }, ...matches];
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+                <input
+                    type="search"
+                    value={query}
+                    placeholder="Search time zones"
+                    onChange={(event) => setQuery(event.target.value)}
+                    aria-label="Search time zones"
+                    className={`${className} grow`}
+                />
+                {detected && detected !== value && (
+                    <button
+                        type="button"
+                        onClick={() => onChange(detected)}
+                        className="px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                        Use {detected.replace(/_/g, ' ')}
+                    </button>
+                )}
+            </div>
+            <select
+                id={id}
+                value={value}
+                onChange={(event) => onChange(event.target.value)}
+                className={`${className} w-full`}
+            >
+                {shown.map((option) => (
+                    <option key={option.value} value={option.value}>
+                        {option.label}
+                    </option>
+                ))}
+            </select>
+            {matches.length === 0 && (
+                <p className="text-xs text-gray-500">No time zones match &ldquo;{query.trim()}&rdquo;.</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+
+const UNDO_TIMEOUT = 8000;
+
+// Bottom-of-screen notice with an Undo button that dismisses itself after a few seconds.
+// Give each undoable action its own key so the timeout starts over.
+export function UndoToast({
+    message,
+    onUndo,
+    onDismiss
+}: {
+    message: string;
+    onUndo: () => void;
+    onDismiss: () => void;
+}) {
+    useEffect(() => {
+        const timeout = setTimeout(onDismiss, UNDO_TIMEOUT);
+        return () => clearTimeout(timeout);
+    }, [onDismiss]);
+
+    return (
+        <div
+            role="status"
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-4 rounded bg-gray-900 px-4 py-3 text-sm text-white shadow-lg"
+        >
+            {message}
+            <button onClick={onUndo} className="font-semibold text-blue-300 hover:text-blue-200">
+                Undo
+            </button>
+            <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-400 hover:text-white">
+                ×
+            </button>
+        </div>
+    );
+}
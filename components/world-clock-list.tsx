@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatClockTime, formatDayOffset, getDayOffset, getTimezoneAbbreviation, HourCycle } from '../lib/timezone';
+
+// Every world clock zone with its current time, the first being the home zone the day
+// offsets are measured from and `activeIndex` the one on the 3D display
+export function WorldClockList({
+    zones,
+    activeIndex,
+    hourCycle
+}: {
+    zones: string[];
+    activeIndex: number;
+    hourCycle: HourCycle;
+}) {
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const id = setInterval(() => setNow(new Date()), 1000);
+        return () => clearInterval(id);
+    }, []);
+
+    return (
+        <ol aria-label="World clock" className="space-y-0.5 tabular-nums">
+            {zones.map((zone, index) => (
+                <li
+                    key={zone}
+                    aria-current={index === activeIndex ? 'true' : undefined}
+                    className={`flex gap-3 ${index === activeIndex ? 'font-semibold' : 'text-gray-600'}`}
+                >
+                    <span className="grow">{zone.split('/').pop().replace(/_/g, ' ')}</span>
+                    <span>{getTimezoneAbbreviation(zone, now)}</span>
+                    <span>{formatClockTime(now, zone, hourCycle)}</span>
+                    <span className="w-14 text-right text-gray-500">
+                        {formatDayOffset(getDayOffset(now, zone, zones[0]))}
+                    </span>
+                </li>
+            ))}
+        </ol>
+    );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from '../contexts/SessionContext';
+import { getTimezoneLabel } from '../lib/timezone';
+import { TimezonePicker } from './timezone-picker';
+
+const INPUT_CLASS =
+    'p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// World clock zones editor for the Settings page: add, reorder and remove
+export function WorldClockSettings() {
+    const { timezone, worldClocks, setWorldClocks } = useSession();
+    const [adding, setAdding] = useState('UTC');
+
+    const move = (index: number, offset: number) => {
+        const next = [...worldClocks];
+        next.splice(index + offset, 0, next.splice(index, 1)[0]);
+        setWorldClocks(next);
+    };
+
+    const canAdd = adding !== timezone && !worldClocks.includes(adding);
+
+    return (
+        <div>
+            <h4 className="block text-sm font-medium text-gray-700 mb-2">World Clock</h4>
+            <p className="mb-2 text-sm text-gray-500">
+                In clock mode the mode button steps from {timezone.replace(/_/g, ' ')} through these zones before
+                switching to the timer.
+            </p>
+            {worldClocks.length > 0 && (
+                <ul className="mb-4 space-y-2">
+                    {worldClocks.map((zone, index) => (
+                        <li key={zone} className="flex items-center gap-2 text-sm text-gray-600">
+                            <span className="grow">{getTimezoneLabel(zone)}</span>
+                            <button
+                                onClick={() => move(index, -1)}
+                                disabled={index === 0}
+                                aria-label={`Move ${zone} up`}
+                                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                onClick={() => move(index, 1)}
+                                disabled={index === worldClocks.length - 1}
+                                aria-label={`Move ${zone} down`}
+                                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                            >
+                                ↓
+                            </button>
+                            <button
+                                onClick={() => setWorldClocks(worldClocks.filter((z) => z !== zone))}
+                                aria-label={`Remove ${zone}`}
+                                className="px-2 text-red-500 hover:text-red-700"
+                            >
+                                X
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <TimezonePicker value={adding} onChange={setAdding} className={INPUT_CLASS} />
+            <button
+                onClick={() => setWorldClocks([...worldClocks, adding])}
+                disabled={!canAdd}
+                className="mt-2 px-3 py-1.5 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+                Add zone
+            </button>
+        </div>
+    );
+}
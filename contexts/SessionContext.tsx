@@ -1,23 +1,184 @@
 'use client';
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import {
+    loadPersistedState,
+    savePersistedState,
+    serializeState,
+    deserializeState,
+    subscribeToPersistedState,
+    serializeSession,
+    deserializeSession,
+    PersistedState
+} from '../lib/storage';
+import { getSyncFingerprint, isSamePayload, mergeSyncPayloads, pushSessions, SyncPayload } from '../lib/sync';
+import type { AlarmPattern } from '../lib/audio';
+import { combineSessions, splitSessionAt } from '../lib/session-editing';
+import { replaceTombstonedIds } from '../lib/session-import';
+import { DEFAULT_DISPLAY_SETTINGS, detectTimezone, DisplaySettings } from '../lib/timezone';
 
-interface LogEntry {
+export type SessionKind = 'timer' | 'stopwatch' | 'interval';
+
+export interface IntervalConfig {
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    /** Work phases before a long break replaces the short one */
+    cyclesBeforeLongBreak: number;
+}
+
+export interface AlarmSettings {
+    pattern: AlarmPattern;
+    /** 0 to 1 */
+    volume: number;
+    /** Times the pattern plays before the alarm stops by itself */
+    repeat: number;
+    snoozeMinutes: number;
+    /** Short click on every button press */
+    buttonClicks: boolean;
+    /** Desktop notification when a countdown finishes in a hidden tab */
+    notifications: boolean;
+}
+
+export interface Lap {
+    /** Stopwatch time when the lap was recorded */
+    splitMs: number;
+    /** Time since the previous lap (or the start) */
+    lapMs: number;
+}
+
+export interface LogEntry {
     id: string;
     startTime: Date;
-    duration: number;
-    formattedDuration: string;
+    durationMs: number;
+    kind: SessionKind;
+    /** Countdown length the timer was set to, in ms (timers and interval work phases) */
+    targetDurationMs?: number;
+    /** False when a countdown was reset before reaching zero */
+    completed: boolean;
+    /** How long a finished countdown counted up past zero before it was stopped */
+    overtimeMs?: number;
+    /** Name of the timer that recorded the session, when it was given one */
+    label?: string;
+    tags?: string[];
+    notes?: string;
+    /** Laps recorded during a stopwatch run */
+    laps?: Lap[];
+    /** Last modification time (ms), used to resolve sync conflicts */
+    updatedAt?: number;
+    /** When the session was moved to the trash (ms); it's purged after the retention period */
+    deletedAt?: number;
+}
+
+export interface Preset {
+    id: string;
+    name: string;
+    durationMs: number;
+}
+
+/** Time to log per calendar day or week, counting every session or only those with `tag` */
+export interface Goal {
+    id: string;
+    period: 'day' | 'week';
+    targetMs: number;
+    tag?: string;
 }
 
+/** Rings at a time of day in the chosen timezone */
+export interface ClockAlarm {
+    id: string;
+    /** "HH:MM" */
+    time: string;
+    /** Weekdays it repeats on, 0 being Sunday; none rings once and then turns the alarm off */
+    days: number[];
+    enabled: boolean;
+    label?: string;
+}
+
+export type SessionDetails = Partial<Pick<LogEntry, 'label' | 'tags' | 'notes'>>;
+
+/** Fields of a logged session that can be edited by hand */
+export type SessionChanges = SessionDetails &
+    Partial<Pick<LogEntry, 'startTime' | 'durationMs' | 'kind' | 'targetDurationMs' | 'completed' | 'overtimeMs'>>;
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
 interface SessionContextType {
+    /** Sessions that aren't in the trash */
     sessions: LogEntry[];
+    /** Trashed sessions, most recently deleted first */
+    trashedSessions: LogEntry[];
     addSession: (session: LogEntry) => void;
+    /** Adds sessions read from a file (see lib/session-import) */
+    importSessions: (sessions: LogEntry[]) => void;
+    /** Moves every session to the trash */
     clearSessions: () => void;
+    /** Moves a session to the trash */
     removeSession: (id: string) => void;
+    restoreSessions: (ids: string[]) => void;
+    /** Deletes sessions for good, leaving tombstones so sync doesn't bring them back */
+    purgeSessions: (ids: string[]) => void;
+    updateSession: (id: string, changes: SessionChanges) => void;
+    /** Cuts a session in two, `offsetMs` after it starts */
+    splitSession: (id: string, offsetMs: number) => void;
+    /** Replaces sessions of the same kind with a single one (see `combineSessions`) */
+    mergeSessions: (ids: string[]) => void;
+    presets: Preset[];
+    /** Adds a preset, or replaces the one with the same id */
+    savePreset: (preset: Preset) => void;
+    removePreset: (id: string) => void;
+    /** Moves a preset up (-1) or down (1) the list */
+    movePreset: (id: string, offset: number) => void;
+    /** Detected from the browser until the user picks one */
     timezone: string;
     setTimezone: (timezone: string) => void;
+    displaySettings: DisplaySettings;
+    setDisplaySettings: (settings: DisplaySettings) => void;
+    /** Zones the clock cycles through after `timezone` */
+    worldClocks: string[];
+    setWorldClocks: (zones: string[]) => void;
+    intervalConfig: IntervalConfig;
+    setIntervalConfig: (config: IntervalConfig) => void;
+    alarmSettings: AlarmSettings;
+    setAlarmSettings: (settings: AlarmSettings) => void;
+    trashRetentionDays: number;
+    setTrashRetentionDays: (days: number) => void;
+    /** The first goal is the one the timer's light shows */
+    goals: Goal[];
+    /** Adds a goal, or replaces the one with the same id */
+    saveGoal: (goal: Goal) => void;
+    removeGoal: (id: string) => void;
+    alarms: ClockAlarm[];
+    /** Adds an alarm, or replaces the one with the same id */
+    saveAlarm: (alarm: ClockAlarm) => void;
+    removeAlarm: (id: string) => void;
+    hydrated: boolean;
+    /** Stored data exists but couldn't be read; nothing is saved or synced so it isn't overwritten */
+    storageUnreadable: boolean;
+    syncStatus: SyncStatus;
 }
 
+const DEFAULT_TIMEZONE = 'America/New_York';
+export const DEFAULT_INTERVAL_CONFIG: IntervalConfig = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4
+};
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+    pattern: 'classic',
+    volume: 0.7,
+    repeat: 10,
+    snoozeMinutes: 5,
+    buttonClicks: false,
+    notifications: false
+};
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const SYNC_DELAY = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// setTimeout's limit; expiries further out are picked up on a later load
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
 const SessionContext = createContext<SessionContextType | undefined>(undefined);
 
 export const useSession = () => {
@@ -30,29 +191,362 @@ export const useSession = () => {
 
 export const SessionProvider = ({ children }: { children: ReactNode }) => {
     const [sessions, setSessions] = useState<LogEntry[]>([]);
-    const [timezone, setTimezone] = useState('America/New_York');
+    const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+    const [timezoneChosen, setTimezoneChosen] = useState(false);
+    const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+    const [worldClocks, setWorldClocks] = useState<string[]>([]);
+    const [intervalConfig, setIntervalConfig] = useState<IntervalConfig>(DEFAULT_INTERVAL_CONFIG);
+    const [alarmSettings, setAlarmSettings] = useState<AlarmSettings>(DEFAULT_ALARM_SETTINGS);
+    const [presets, setPresets] = useState<Preset[]>([]);
+    const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+    const [goals, setGoals] = useState<Goal[]>([]);
+    const [alarms, setAlarms] = useState<ClockAlarm[]>([]);
+    const [deleted, setDeleted] = useState<Record<string, number>>({});
+    const [hydrated, setHydrated] = useState(false);
+    const [storageUnreadable, setStorageUnreadable] = useState(false);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+    const [online, setOnline] = useState(true);
+    // Last state written to or read from storage, used to skip redundant saves and
+    // to avoid echoing another tab's update back to it.
+    const lastSerializedRef = useRef<string | null>(null);
+    // Last payload the server confirmed, so unchanged state isn't pushed again.
+    const lastSyncedRef = useRef<string | null>(null);
 
-    const addSession = (session: LogEntry) => {
-        setSessions((prev) => [session, ...prev]);
+    const applyPersistedState = (serialized: string, state: PersistedState) => {
+        lastSerializedRef.current = serialized;
+        setSessions(state.sessions);
+        setDeleted(state.deleted);
+        setPresets(state.presets);
+        const { timezone: storedTimezone, timezoneChosen: chosen } = state.settings;
+        // Older versions saved the default zone before anyone picked one, so only another zone counts as chosen
+        const isChosen = chosen ?? (!!storedTimezone && storedTimezone !== DEFAULT_TIMEZONE);
+        setTimezoneChosen(isChosen);
+        setTimezone(isChosen ? storedTimezone : detectTimezone(DEFAULT_TIMEZONE));
+        setDisplaySettings({ ...DEFAULT_DISPLAY_SETTINGS, ...state.settings.display });
+        setWorldClocks(state.settings.worldClocks ?? []);
+        setIntervalConfig({ ...DEFAULT_INTERVAL_CONFIG, ...state.settings.interval });
+        setAlarmSettings({ ...DEFAULT_ALARM_SETTINGS, ...state.settings.alarm });
+        setTrashRetentionDays(state.settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+        setGoals(state.settings.goals ?? []);
+        setAlarms(state.settings.alarms ?? []);
     };
 
-    const clearSessions = () => {
-        setSessions([]);
-    };
+    // --- Load from storage and follow other tabs ---
+    useEffect(() => {
+        let cancelled = false;
+        loadPersistedState()
+            .then((state) => {
+                if (cancelled) return;
+                if (state) {
+                    applyPersistedState(serializeState(state), state);
+                } else {
+                    setTimezone(detectTimezone(DEFAULT_TIMEZONE));
+                }
+                setHydrated(true);
+            })
+            .catch((error) => {
+                // Staying unhydrated keeps the save and sync effects from replacing the stored data
+                console.error('Error loading sessions:', error);
+                if (!cancelled) setStorageUnreadable(true);
+            });
 
-    const removeSession = (id: string) => {
-        setSessions((prev) => prev.filter((s) => s.id !== id));
-    };
+        const unsubscribe = subscribeToPersistedState((serialized) => {
+            const state = deserializeState(serialized);
+            if (state) applyPersistedState(serialized, state);
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    // --- Save on change ---
+    useEffect(() => {
+        if (!hydrated) return;
+        const serialized = serializeState({
+            sessions,
+            deleted,
+            presets,
+            settings: {
+                timezone,
+                timezoneChosen,
+                display: displaySettings,
+                worldClocks,
+                interval: intervalConfig,
+                alarm: alarmSettings,
+                trashRetentionDays,
+                goals,
+                alarms
+            }
+        });
+        if (serialized === lastSerializedRef.current) return;
+        lastSerializedRef.current = serialized;
+        savePersistedState(serialized);
+    }, [
+        hydrated,
+        sessions,
+        deleted,
+        presets,
+        timezone,
+        timezoneChosen,
+        displaySettings,
+        worldClocks,
+        intervalConfig,
+        alarmSettings,
+        trashRetentionDays,
+        goals,
+        alarms
+    ]);
+
+    // --- Track connectivity ---
+    useEffect(() => {
+        const updateOnline = () => setOnline(navigator.onLine);
+        updateOnline();
+        window.addEventListener('online', updateOnline);
+        window.addEventListener('offline', updateOnline);
+        return () => {
+            window.removeEventListener('online', updateOnline);
+            window.removeEventListener('offline', updateOnline);
+        };
+    }, []);
+
+    // --- Server sync ---
+    // Pushes local changes (debounced) and whenever the browser comes back online. The
+    // server replies with its merged copy, which is merged again locally in case the
+    // sessions changed while the request was in flight.
+    useEffect(() => {
+        if (!hydrated) return;
+        if (!online) {
+            setSyncStatus('offline');
+            return;
+        }
+        const payload: SyncPayload = { sessions: sessions.map(serializeSession), deleted };
+        if (getSyncFingerprint(payload) === lastSyncedRef.current) return;
+
+        let cancelled = false;
+        const timeout = setTimeout(() => {
+            setSyncStatus('syncing');
+            pushSessions(payload)
+                .then((remote) => {
+                    lastSyncedRef.current = getSyncFingerprint(remote);
+                    if (cancelled) return;
+                    // Keeping the previous state when nothing changed stops the push from triggering another
+                    setSessions((prev) => {
+                        const local = prev.map(serializeSession);
+                        const merged = mergeSyncPayloads({ sessions: local, deleted }, remote).sessions;
+                        if (isSamePayload({ sessions: merged, deleted: {} }, { sessions: local, deleted: {} }))
+                            return prev;
+                        return merged.map(deserializeSession).filter(Boolean);
+                    });
+                    setDeleted((prev) => {
+                        const merged = mergeSyncPayloads({ sessions: [], deleted: prev }, remote).deleted;
+                        return isSamePayload({ sessions: [], deleted: merged }, { sessions: [], deleted: prev })
+                            ? prev
+                            : merged;
+                    });
+                    setSyncStatus('idle');
+                })
+                .catch((error) => {
+                    console.error('Error syncing sessions:', error);
+                    if (!cancelled) setSyncStatus(navigator.onLine ? 'error' : 'offline');
+                });
+        }, SYNC_DELAY);
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [hydrated, online, sessions, deleted]);
+
+    const addSession = useCallback((session: LogEntry) => {
+        setSessions((prev) => [{ ...session, updatedAt: Date.now() }, ...prev]);
+    }, []);
+
+    const importSessions = useCallback(
+        (imported: LogEntry[]) => {
+            const updatedAt = Date.now();
+            const entries = replaceTombstonedIds(imported, deleted);
+            setSessions((prev) => [...entries.map((s) => ({ ...s, updatedAt })), ...prev]);
+        },
+        [deleted]
+    );
+
+    // Trashing is an ordinary edit (with `updatedAt`), so it syncs like any other change
+    const trashSessions = useCallback((shouldTrash: (session: LogEntry) => boolean) => {
+        const now = Date.now();
+        setSessions((prev) =>
+            prev.map((s) =>
+                s.deletedAt === undefined && shouldTrash(s) ? { ...s, deletedAt: now, updatedAt: now } : s
+            )
+        );
+    }, []);
+
+    const clearSessions = useCallback(() => trashSessions(() => true), [trashSessions]);
+
+    const removeSession = useCallback((id: string) => trashSessions((s) => s.id === id), [trashSessions]);
+
+    const restoreSessions = useCallback((ids: string[]) => {
+        const updatedAt = Date.now();
+        setSessions((prev) =>
+            prev.map((s) => {
+                if (!ids.includes(s.id) || s.deletedAt === undefined) return s;
+                const { deletedAt, ...restored } = s;
+                return { ...restored, updatedAt };
+            })
+        );
+    }, []);
+
+    const purgeSessions = useCallback((ids: string[]) => {
+        const deletedAt = Date.now();
+        setDeleted((prev) => ({ ...prev, ...Object.fromEntries(ids.map((id) => [id, deletedAt])) }));
+        setSessions((prev) => prev.filter((s) => !ids.includes(s.id)));
+    }, []);
+
+    // --- Purge the trash after the retention period ---
+    useEffect(() => {
+        if (!hydrated) return;
+        const retentionMs = trashRetentionDays * DAY_MS;
+        const trashed = sessions.filter((s) => s.deletedAt !== undefined);
+        if (trashed.length === 0) return;
+        const expiredBy = (time: number) => trashed.filter((s) => s.deletedAt + retentionMs <= time).map((s) => s.id);
+        const expired = expiredBy(Date.now());
+        if (expired.length > 0) {
+            purgeSessions(expired);
+            return;
+        }
+        const nextExpiry = Math.min(...trashed.map((s) => s.deletedAt + retentionMs));
+        const timeout = setTimeout(
+            () => {
+                const due = expiredBy(Date.now());
+                if (due.length > 0) purgeSessions(due);
+            },
+            Math.min(nextExpiry - Date.now(), MAX_TIMEOUT)
+        );
+        return () => clearTimeout(timeout);
+    }, [hydrated, sessions, trashRetentionDays, purgeSessions]);
+
+    const activeSessions = useMemo(() => sessions.filter((s) => s.deletedAt === undefined), [sessions]);
+    const trashedSessions = useMemo(
+        () => sessions.filter((s) => s.deletedAt !== undefined).sort((a, b) => b.deletedAt - a.deletedAt),
+        [sessions]
+    );
+
+    const updateSession = useCallback((id: string, changes: SessionChanges) => {
+        const updatedAt = Date.now();
+        setSessions((prev) => prev.map((s) => (s.id === id ? { ...s, ...changes, updatedAt } : s)));
+    }, []);
+
+    const splitSession = useCallback((id: string, offsetMs: number) => {
+        setSessions((prev) => {
+            const index = prev.findIndex((s) => s.id === id);
+            if (index < 0 || offsetMs <= 0 || offsetMs >= prev[index].durationMs) return prev;
+            const next = [...prev];
+            next.splice(index, 1, ...splitSessionAt(prev[index], offsetMs).reverse());
+            return next;
+        });
+    }, []);
+
+    // The merged session keeps the earliest one's id; the others are removed with tombstones
+    const mergeSessions = useCallback(
+        (ids: string[]) => {
+            const selected = sessions.filter((s) => ids.includes(s.id));
+            if (selected.length < 2 || selected.some((s) => s.kind !== selected[0].kind)) return;
+            const merged = combineSessions(selected);
+            const removed = ids.filter((id) => id !== merged.id);
+            setDeleted((prev) => ({ ...prev, ...Object.fromEntries(removed.map((id) => [id, merged.updatedAt])) }));
+            setSessions((prev) =>
+                prev.filter((s) => !removed.includes(s.id)).map((s) => (s.id === merged.id ? merged : s))
+            );
+        },
+        [sessions]
+    );
+
+    const savePreset = useCallback((preset: Preset) => {
+        setPresets((prev) =>
+            prev.some((p) => p.id === preset.id)
+                ? prev.map((p) => (p.id === preset.id ? preset : p))
+                : [...prev, preset]
+        );
+    }, []);
+
+    const removePreset = useCallback((id: string) => {
+        setPresets((prev) => prev.filter((p) => p.id !== id));
+    }, []);
+
+    const movePreset = useCallback((id: string, offset: number) => {
+        setPresets((prev) => {
+            const from = prev.findIndex((p) => p.id === id);
+            const to = from + offset;
+            if (from < 0 || to < 0 || to >= prev.length) return prev;
+            const next = [...prev];
+            next.splice(to, 0, next.splice(from, 1)[0]);
+            return next;
+        });
+    }, []);
+
+    const saveGoal = useCallback((goal: Goal) => {
+        setGoals((prev) =>
+            prev.some((g) => g.id === goal.id) ? prev.map((g) => (g.id === goal.id ? goal : g)) : [...prev, goal]
+        );
+    }, []);
+
+    const removeGoal = useCallback((id: string) => {
+        setGoals((prev) => prev.filter((g) => g.id !== id));
+    }, []);
+
+    const chooseTimezone = useCallback((zone: string) => {
+        setTimezone(zone);
+        setTimezoneChosen(true);
+    }, []);
+
+    const saveAlarm = useCallback((alarm: ClockAlarm) => {
+        setAlarms((prev) =>
+            prev.some((a) => a.id === alarm.id) ? prev.map((a) => (a.id === alarm.id ? alarm : a)) : [...prev, alarm]
+        );
+    }, []);
+
+    const removeAlarm = useCallback((id: string) => {
+        setAlarms((prev) => prev.filter((a) => a.id !== id));
+    }, []);
 
     return (
         <SessionContext.Provider
             value={{
-                sessions,
+                sessions: activeSessions,
+                trashedSessions,
                 addSession,
+                importSessions,
                 clearSessions,
                 removeSession,
+                restoreSessions,
+                purgeSessions,
+                updateSession,
+                splitSession,
+                mergeSessions,
+                presets,
+                savePreset,
+                removePreset,
+                movePreset,
                 timezone,
-                setTimezone
+                setTimezone: chooseTimezone,
+                displaySettings,
+                setDisplaySettings,
+                worldClocks,
+                setWorldClocks,
+                intervalConfig,
+                setIntervalConfig,
+                alarmSettings,
+                setAlarmSettings,
+                trashRetentionDays,
+                setTrashRetentionDays,
+                goals,
+                saveGoal,
+                removeGoal,
+                alarms,
+                saveAlarm,
+                removeAlarm,
+                hydrated,
+                storageUnreadable,
+                syncStatus
             }}
         >
             {children}
@@ -0,0 +1,45 @@
+import type { ClockAlarm } from '../contexts/SessionContext';
+import { addDaysToKey, getDateKey, zonedTimeToDate } from './timezone';
+
+// Alarm clock schedule. Times are wall-clock times in the chosen timezone, so an alarm keeps
+// ringing at 07:00 across DST changes. One set inside a skipped hour rings that much later
+// (02:30 rings at 03:30 when 02:00 jumps to 03:00), and one in a repeated hour rings the first time.
+
+export const WEEKDAYS = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 0, label: 'Sun' }
+];
+
+export const createAlarmId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** "Once", "Every day", "Weekdays", "Weekends" or the days, e.g. "Mon, Wed, Fri". */
+export const describeAlarmDays = (days: number[]): string => {
+    const set = new Set(days);
+    if (set.size === 0) return 'Once';
+    if (set.size === 7) return 'Every day';
+    if (set.size === 5 && [1, 2, 3, 4, 5].every((day) => set.has(day))) return 'Weekdays';
+    if (set.size === 2 && set.has(0) && set.has(6)) return 'Weekends';
+    return WEEKDAYS.filter((day) => set.has(day.value))
+        .map((day) => day.label)
+        .join(', ');
+};
+
+/** Next time after `now` an enabled alarm rings, or null for one that's off. */
+export const getNextAlarmTime = (alarm: ClockAlarm, timezone: string, now = new Date()): Date | null => {
+    if (!alarm.enabled) return null;
+    const today = getDateKey(now, timezone);
+    // Eight days reach the same weekday next week when today's ring has already passed
+    for (let offset = 0; offset <= 7; offset++) {
+        const key = addDaysToKey(today, offset);
+        const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+        if (alarm.days.length > 0 && !alarm.days.includes(weekday)) continue;
+        const ringsAt = zonedTimeToDate(key, alarm.time, timezone);
+        if (ringsAt > now) return ringsAt;
+    }
+    return null;
+};
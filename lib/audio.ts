@@ -0,0 +1,159 @@
+// --- Patterns ---
+// Each pattern is one cycle of beeps (offsets and lengths in seconds), repeated `repeat`
+// times. Frequencies are close to the piezo buzzer in a dretec kitchen timer.
+interface Beep {
+    at: number;
+    length: number;
+    frequency: number;
+}
+interface AlarmPatternDefinition {
+    label: string;
+    cycle: number;
+    beeps: Beep[];
+}
+
+const beepRun = (count: number, spacing: number, length: number, frequency = 2048): Beep[] =>
+    Array.from({ length: count }, (_, i) => ({ at: i * spacing, length, frequency }));
+
+export const ALARM_PATTERNS = {
+    classic: { label: 'Classic (pi-pi-pi-pi)', cycle: 1.2, beeps: beepRun(4, 0.14, 0.08) },
+    double: { label: 'Double beep', cycle: 1, beeps: beepRun(2, 0.2, 0.12) },
+    continuous: { label: 'Continuous', cycle: 0.5, beeps: beepRun(1, 0, 0.4) },
+    chime: {
+        label: 'Chime',
+        cycle: 1.6,
+        beeps: [
+            { at: 0, length: 0.3, frequency: 1319 },
+            { at: 0.32, length: 0.3, frequency: 1047 },
+            { at: 0.64, length: 0.5, frequency: 784 }
+        ]
+    }
+} satisfies Record<string, AlarmPatternDefinition>;
+
+export type AlarmPattern = keyof typeof ALARM_PATTERNS;
+
+export interface AlarmOptions {
+    pattern: AlarmPattern;
+    /** 0 to 1 */
+    volume: number;
+    repeat: number;
+}
+
+// --- Audio context ---
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+    if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return null;
+    if (!audioContext) audioContext = new AudioContext();
+    return audioContext;
+};
+
+/**
+ * Browsers only allow audio after a user gesture, so call this from input handlers.
+ * Alarms that fire later (e.g. when a countdown ends) then play without one.
+ */
+export const unlockAudio = () => {
+    const context = getAudioContext();
+    if (context?.state === 'suspended') context.resume().catch(() => {});
+};
+
+const scheduleBeep = (context: AudioContext, output: AudioNode, beep: Beep, start: number, type: OscillatorType) => {
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = beep.frequency;
+    // Short ramps avoid clicks at the start and end of each beep
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(1, start + 0.005);
+    envelope.gain.setValueAtTime(1, start + beep.length - 0.005);
+    envelope.gain.linearRampToValueAtTime(0, start + beep.length);
+    oscillator.connect(envelope).connect(output);
+    oscillator.start(start);
+    oscillator.stop(start + beep.length);
+    return oscillator;
+};
+
+// --- Alarm ---
+let ringing: { output: GainNode; oscillators: OscillatorNode[]; endTimeout: ReturnType<typeof setTimeout> } | null =
+    null;
+let snoozeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/** Plays the alarm, replacing any that is ringing. `onEnd` runs if it finishes on its own. */
+export const startAlarm = (options: AlarmOptions, onEnd?: () => void) => {
+    stopAlarm();
+    const context = getAudioContext();
+    if (!context) return;
+
+    const pattern: AlarmPatternDefinition = ALARM_PATTERNS[options.pattern] ?? ALARM_PATTERNS.classic;
+    const output = context.createGain();
+    output.gain.value = Math.max(0, Math.min(1, options.volume)) * 0.3;
+    output.connect(context.destination);
+
+    const start = context.currentTime + 0.05;
+    const repeat = Math.max(1, options.repeat);
+    const oscillators: OscillatorNode[] = [];
+    for (let cycle = 0; cycle < repeat; cycle++) {
+        pattern.beeps.forEach((beep) => {
+            const type = options.pattern === 'chime' ? 'sine' : 'square';
+            oscillators.push(scheduleBeep(context, output, beep, start + cycle * pattern.cycle + beep.at, type));
+        });
+    }
+
+    const endTimeout = setTimeout(
+        () => {
+            stopAlarm();
+            onEnd?.();
+        },
+        (repeat * pattern.cycle + 0.05) * 1000
+    );
+    ringing = { output, oscillators, endTimeout };
+};
+
+/** Silences the alarm and cancels any pending snooze. */
+export const stopAlarm = () => {
+    if (snoozeTimeout) {
+        clearTimeout(snoozeTimeout);
+        snoozeTimeout = null;
+    }
+    if (!ringing) return;
+    clearTimeout(ringing.endTimeout);
+    ringing.oscillators.forEach((oscillator) => {
+        try {
+            oscillator.stop();
+        } catch {
+            // Already stopped
+        }
+    });
+    ringing.output.disconnect();
+    ringing = null;
+};
+
+/** Silences the alarm now and rings it again after `minutes`. */
+export const snoozeAlarm = (options: AlarmOptions, minutes: number, onRing?: () => void, onEnd?: () => void) => {
+    stopAlarm();
+    snoozeTimeout = setTimeout(
+        () => {
+            snoozeTimeout = null;
+            startAlarm(options, onEnd);
+            onRing?.();
+        },
+        minutes * 60 * 1000
+    );
+};
+
+// --- Button clicks ---
+export const playClick = (volume: number) => {
+    const context = getAudioContext();
+    if (!context || context.state !== 'running') return;
+    const output = context.createGain();
+    output.gain.value = Math.max(0, Math.min(1, volume)) * 0.15;
+    output.connect(context.destination);
+    const oscillator = scheduleBeep(
+        context,
+        output,
+        { at: 0, length: 0.02, frequency: 4000 },
+        context.currentTime,
+        'square'
+    );
+    oscillator.onended = () => output.disconnect();
+};
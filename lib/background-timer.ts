@@ -0,0 +1,52 @@
+// Ticks from a Web Worker so countdowns keep their wall-clock deadline in background
+// tabs, where requestAnimationFrame stops and page timers are throttled. Falls back to
+// page timers where workers aren't available.
+export interface BackgroundTimer {
+    /** Calls `onTick` every second and at `deadline` (epoch ms), replacing any previous listener */
+    start: (onTick: () => void, deadline?: number) => void;
+    stop: () => void;
+    dispose: () => void;
+}
+
+export const createBackgroundTimer = (): BackgroundTimer => {
+    let listener: (() => void) | null = null;
+    let worker: Worker | null = null;
+    try {
+        worker = new Worker(new URL('./background-timer.worker.ts', import.meta.url));
+        worker.onmessage = () => listener?.();
+    } catch (error) {
+        console.error('Background timer worker unavailable:', error);
+    }
+
+    let tickInterval: ReturnType<typeof setInterval> | null = null;
+    let deadlineTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const stop = () => {
+        listener = null;
+        worker?.postMessage({ type: 'stop' });
+        if (tickInterval) clearInterval(tickInterval);
+        if (deadlineTimeout) clearTimeout(deadlineTimeout);
+        tickInterval = deadlineTimeout = null;
+    };
+
+    return {
+        start: (onTick, deadline) => {
+            stop();
+            listener = onTick;
+            if (worker) {
+                worker.postMessage({ type: 'start', deadline: deadline ?? null });
+                return;
+            }
+            tickInterval = setInterval(() => listener?.(), 1000);
+            if (deadline !== undefined) {
+                deadlineTimeout = setTimeout(() => listener?.(), Math.max(0, deadline - Date.now()));
+            }
+        },
+        stop,
+        dispose: () => {
+            stop();
+            worker?.terminate();
+            worker = null;
+        }
+    };
+};
@@ -0,0 +1,23 @@
+// Dedicated workers aren't throttled like timers in a background tab, so this keeps
+// ticking once a second (and exactly at the deadline) while the page is hidden.
+type WorkerMessage = { type: 'start'; deadline: number | null } | { type: 'stop' };
+
+let tickInterval: ReturnType<typeof setInterval> | null = null;
+let deadlineTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const clear = () => {
+    if (tickInterval) clearInterval(tickInterval);
+    if (deadlineTimeout) clearTimeout(deadlineTimeout);
+    tickInterval = deadlineTimeout = null;
+};
+
+const tick = () => postMessage('tick');
+
+addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
+    clear();
+    if (event.data.type !== 'start') return;
+    tickInterval = setInterval(tick, 1000);
+    if (event.data.deadline !== null) {
+        deadlineTimeout = setTimeout(tick, Math.max(0, event.data.deadline - Date.now()));
+    }
+});
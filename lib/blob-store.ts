@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getStore } from '@netlify/blobs';
+
+// The subset of the Netlify Blobs store API the session routes rely on.
+export interface JSONBlobStore {
+    get: (key: string) => Promise<unknown>;
+    setJSON: (key: string, data: unknown) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+}
+
+const STORE_NAME = 'sessions';
+
+// --- Local stand-ins ---
+declare global {
+    var __dretecMemoryBlobs: Map<string, string> | undefined;
+}
+
+// Kept on globalThis so dev-server hot reloads don't drop the data.
+const memoryBlobs = (globalThis.__dretecMemoryBlobs ??= new Map<string, string>());
+
+const createMemoryStore = (): JSONBlobStore => ({
+    get: async (key) => (memoryBlobs.has(key) ? JSON.parse(memoryBlobs.get(key)) : null),
+    setJSON: async (key, data) => {
+        memoryBlobs.set(key, JSON.stringify(data));
+    },
+    delete: async (key) => {
+        memoryBlobs.delete(key);
+    }
+});
+
+const createFileStore = (directory: string): JSONBlobStore => {
+    const fileFor = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+    return {
+        get: async (key) => {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+            } catch (error) {
+                if (error.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        setJSON: async (key, data) => {
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(fileFor(key), JSON.stringify(data));
+        },
+        delete: async (key) => {
+            await fs.rm(fileFor(key), { force: true });
+        }
+    };
+};
+
+const createNetlifyStore = (): JSONBlobStore => {
+    const store = getStore(STORE_NAME);
+    return {
+        get: (key) => store.get(key, { type: 'json' }),
+        setJSON: (key, data) => store.setJSON(key, data),
+        delete: (key) => store.delete(key)
+    };
+};
+
+/**
+ * Picks the backing store from SESSION_STORE ("netlify", "file" or "memory").
+ * Defaults to Netlify Blobs when deployed on Netlify and to files under
+ * .netlify/local-blobs everywhere else.
+ */
+export const getSessionStore = (): JSONBlobStore => {
+    const kind =
+        process.env.SESSION_STORE || (process.env.NETLIFY || process.env.NETLIFY_BLOBS_CONTEXT ? 'netlify' : 'file');
+    switch (kind) {
+        case 'netlify':
+            return createNetlifyStore();
+        case 'memory':
+            return createMemoryStore();
+        case 'file':
+            return createFileStore(
+                process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.netlify', 'local-blobs', STORE_NAME)
+            );
+        default:
+            throw new Error(`Unknown SESSION_STORE "${kind}"`);
+    }
+};
@@ -0,0 +1,58 @@
+// Session durations are stored as whole milliseconds (`durationMs`). These helpers
+// convert the older unit-less shape and format durations for display.
+
+/**
+ * Converts an entry stored before `durationMs` existed. Stopwatch runs in ms format
+ * stored centiseconds and were formatted as "mm:ss"; everything else stored seconds
+ * formatted as "hh:mm:ss".
+ */
+export const legacyDurationToMs = (session: { duration?: number; formattedDuration?: string }): number => {
+    const duration = Number(session.duration) || 0;
+    const isCentiseconds = session.formattedDuration?.split(':').length === 2;
+    return Math.round(duration * (isCentiseconds ? 10 : 1000));
+};
+
+/** "1h 2m 3s", with hundredths for sessions under a minute (e.g. "4.56s"). */
+export const formatDuration = (durationMs: number): string => {
+    const totalSeconds = Math.floor(durationMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+        return `${hours}h ${minutes}m ${seconds}s`;
+    } else if (minutes > 0) {
+        return `${minutes}m ${seconds}s`;
+    } else if (durationMs % 1000 >= 10) {
+        return `${(Math.floor(durationMs / 10) / 100).toFixed(2)}s`;
+    } else {
+        return `${seconds}s`;
+    }
+};
+
+/** "hh:mm:ss" */
+export const formatClockDuration = (durationMs: number): string => {
+    const totalSeconds = Math.floor(durationMs / 1000);
+    const h = Math.floor(totalSeconds / 3600)
+        .toString()
+        .padStart(2, '0');
+    const m = Math.floor((totalSeconds % 3600) / 60)
+        .toString()
+        .padStart(2, '0');
+    const s = (totalSeconds % 60).toString().padStart(2, '0');
+    return `${h}:${m}:${s}`;
+};
+
+/** Stopwatch-style "mm:ss.cc", or "h:mm:ss.cc" from an hour up. */
+export const formatStopwatchTime = (durationMs: number): string => {
+    const totalSeconds = Math.floor(durationMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const m = Math.floor((totalSeconds % 3600) / 60)
+        .toString()
+        .padStart(2, '0');
+    const s = (totalSeconds % 60).toString().padStart(2, '0');
+    const cs = Math.floor((durationMs % 1000) / 10)
+        .toString()
+        .padStart(2, '0');
+    return hours > 0 ? `${hours}:${m}:${s}.${cs}` : `${m}:${s}.${cs}`;
+};
@@ -0,0 +1,72 @@
+import type { Goal, LogEntry } from '../contexts/SessionContext';
+import { formatDuration } from './duration';
+import { getPeriodKey } from './session-stats';
+import { addDaysToKey, getDateKey } from './timezone';
+
+// Progress and streaks for daily and weekly goals, by calendar day in the chosen timezone.
+
+export interface GoalProgress {
+    /** Key of the day, or the Monday of the week, in progress */
+    periodKey: string;
+    doneMs: number;
+    /** Share of the target done so far, from 0 to 1 */
+    fraction: number;
+    reached: boolean;
+    /** Periods in a row the goal was reached, counting back from this one (or the last one while this is still open) */
+    currentStreak: number;
+    longestStreak: number;
+}
+
+export const createGoalId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const describeGoal = (goal: Goal): string =>
+    `${formatDuration(goal.targetMs)} a ${goal.period}${goal.tag?.trim() ? ` of #${goal.tag.trim()}` : ''}`;
+
+const countsToward = (session: LogEntry, goal: Goal): boolean =>
+    !goal.tag?.trim() || (session.tags ?? []).some((tag) => tag.toLowerCase() === goal.tag.trim().toLowerCase());
+
+export const getGoalProgress = (goal: Goal, sessions: LogEntry[], timezone: string, now = new Date()): GoalProgress => {
+    const totals = new Map<string, number>();
+    sessions.forEach((session) => {
+        if (!countsToward(session, goal)) return;
+        const key = getPeriodKey(getDateKey(session.startTime, timezone), goal.period);
+        totals.set(key, (totals.get(key) ?? 0) + session.durationMs);
+    });
+
+    const step = goal.period === 'day' ? 1 : 7;
+    const isReached = (key: string) => (totals.get(key) ?? 0) >= goal.targetMs;
+    const periodKey = getPeriodKey(getDateKey(now, timezone), goal.period);
+    const doneMs = totals.get(periodKey) ?? 0;
+
+    let currentStreak = 0;
+    let key = isReached(periodKey) ? periodKey : addDaysToKey(periodKey, -step);
+    while (isReached(key)) {
+        currentStreak++;
+        key = addDaysToKey(key, -step);
+    }
+
+    let longestStreak = 0;
+    let run = 0;
+    let previous: string | null = null;
+    Array.from(totals.keys())
+        .filter(isReached)
+        .sort()
+        .forEach((reachedKey) => {
+            run = previous !== null && addDaysToKey(previous, step) === reachedKey ? run + 1 : 1;
+            longestStreak = Math.max(longestStreak, run);
+            previous = reachedKey;
+        });
+
+    return {
+        periodKey,
+        doneMs,
+        fraction: goal.targetMs > 0 ? Math.min(1, doneMs / goal.targetMs) : 1,
+        reached: doneMs >= goal.targetMs,
+        currentStreak,
+        longestStreak
+    };
+};
+
+/** Streaks of days with at least one session, whether or not any goal is set. */
+export const getActiveDayStreaks = (sessions: LogEntry[], timezone: string, now = new Date()) =>
+    getGoalProgress({ id: 'active-days', period: 'day', targetMs: 1 }, sessions, timezone, now);
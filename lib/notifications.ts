@@ -0,0 +1,27 @@
+// Desktop notifications for countdowns that finish while the page is hidden.
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+    notificationsSupported() ? Notification.permission : 'unsupported';
+
+/** Must be called from a user gesture (e.g. a click). */
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+    if (!notificationsSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+};
+
+/** Shows a notification when permitted and the page is hidden; clicking it focuses the tab. */
+export const notifyIfHidden = (title: string, body?: string) => {
+    if (!notificationsSupported() || Notification.permission !== 'granted' || !document.hidden) return;
+    try {
+        const notification = new Notification(title, { body, tag: 'dretec-online-timer' });
+        notification.onclick = () => {
+            window.focus();
+            notification.close();
+        };
+    } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.error('Error showing notification:', error);
+    }
+};
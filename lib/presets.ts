@@ -0,0 +1,60 @@
+import type { Preset } from '../contexts/SessionContext';
+
+// Presets are named countdown lengths ("Tea 3m"). They're saved with the sessions and can
+// be shared as a link whose `presets` parameter carries their names and lengths.
+export const SHARED_PRESETS_PARAM = 'presets';
+/** Same limit as the timer display, 99:59:59 */
+export const PRESET_MAX_MS = (99 * 3600 + 59 * 60 + 59) * 1000;
+
+export const createPresetId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isValidDuration = (durationMs: unknown): durationMs is number =>
+    typeof durationMs === 'number' && Number.isFinite(durationMs) && durationMs >= 1000 && durationMs <= PRESET_MAX_MS;
+
+/** Keeps well-formed presets from stored or shared data. */
+export const sanitizePresets = (data: unknown): Preset[] =>
+    (Array.isArray(data) ? data : [])
+        .filter(
+            (preset) =>
+                preset &&
+                typeof preset.id === 'string' &&
+                typeof preset.name === 'string' &&
+                isValidDuration(preset.durationMs)
+        )
+        .map(({ id, name, durationMs }) => ({ id, name, durationMs: Math.round(durationMs) }));
+
+// --- Sharing ---
+const toBase64Url = (text: string): string =>
+    btoa(String.fromCharCode(...Array.from(new TextEncoder().encode(text))))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+const fromBase64Url = (value: string): string =>
+    new TextDecoder().decode(
+        Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0))
+    );
+
+/** Link to the timer page that offers `presets` to whoever opens it. */
+export const createPresetShareUrl = (presets: Preset[]): string => {
+    const url = new URL('/', window.location.origin);
+    const encoded = toBase64Url(JSON.stringify(presets.map((preset) => [preset.name, preset.durationMs / 1000])));
+    url.searchParams.set(SHARED_PRESETS_PARAM, encoded);
+    return url.toString();
+};
+
+/** Reads presets from a share link parameter, with fresh ids. Returns [] for anything malformed. */
+export const parseSharedPresets = (value: string): Preset[] => {
+    try {
+        const decoded = JSON.parse(fromBase64Url(value));
+        return sanitizePresets(
+            (Array.isArray(decoded) ? decoded : []).map((item) =>
+                Array.isArray(item) && typeof item[1] === 'number'
+                    ? { id: createPresetId(), name: String(item[0]).slice(0, 50), durationMs: item[1] * 1000 }
+                    : null
+            )
+        );
+    } catch {
+        return [];
+    }
+};
@@ -0,0 +1,111 @@
+import type { Lap, LogEntry, SessionChanges } from '../contexts/SessionContext';
+
+// Validation, splitting and merging for sessions entered or edited by hand on History.
+
+/** What the session form submits: every field a new session needs, plus the optional details */
+export type SessionFields = Pick<LogEntry, 'startTime' | 'durationMs' | 'kind' | 'completed'> & SessionChanges;
+
+// Unique even when several timers log in the same millisecond
+export const createSessionId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSession = (fields: SessionFields): LogEntry => ({ ...fields, id: createSessionId() });
+
+/** Reasons a start time and duration can't be saved; empty when they're fine. */
+export const validateSessionTimes = (startTime: Date, durationMs: number, now = Date.now()): string[] => {
+    const errors: string[] = [];
+    if (isNaN(startTime.getTime())) {
+        errors.push('Enter a valid start date and time.');
+    } else if (startTime.getTime() > now) {
+        errors.push('The start time is in the future.');
+    }
+    if (isNaN(durationMs) || durationMs < 0) {
+        errors.push('The duration can’t be negative.');
+    } else if (durationMs === 0) {
+        errors.push('The duration must be longer than zero.');
+    }
+    return errors;
+};
+
+// Laps up to `offsetMs` stay with the first part; the rest move to the second, measured from its start
+const splitLaps = (laps: Lap[], offsetMs: number): [Lap[], Lap[]] => {
+    const first = laps.filter((lap) => lap.splitMs <= offsetMs);
+    const second = laps
+        .filter((lap) => lap.splitMs > offsetMs)
+        .map((lap, index) => ({
+            splitMs: lap.splitMs - offsetMs,
+            lapMs: index === 0 ? lap.splitMs - offsetMs : lap.lapMs
+        }));
+    return [first, second];
+};
+
+/**
+ * Cuts a session in two at `offsetMs` from its start. The first part keeps the id. Neither
+ * part ran to the original countdown, so the target and any overtime are dropped from both.
+ */
+export const splitSessionAt = (session: LogEntry, offsetMs: number, updatedAt = Date.now()): [LogEntry, LogEntry] => {
+    const { targetDurationMs, overtimeMs, laps, ...rest } = session;
+    const [firstLaps, secondLaps] = splitLaps(laps ?? [], offsetMs);
+    return [
+        { ...rest, durationMs: offsetMs, ...(firstLaps.length > 0 ? { laps: firstLaps } : {}), updatedAt },
+        {
+            ...rest,
+            id: createSessionId(),
+            startTime: new Date(session.startTime.getTime() + offsetMs),
+            durationMs: session.durationMs - offsetMs,
+            ...(secondLaps.length > 0 ? { laps: secondLaps } : {}),
+            updatedAt
+        }
+    ];
+};
+
+/** Why `sessions` can't be merged, or null when they can. */
+export const getMergeError = (sessions: LogEntry[]): string | null => {
+    if (sessions.length < 2) return 'Select at least two sessions to merge.';
+    if (sessions.some((session) => session.kind !== sessions[0].kind))
+        return 'Only sessions of the same type can be merged.';
+    return null;
+};
+
+/**
+ * Combines sessions into one that starts with the earliest and lasts as long as all of them
+ * together (gaps between them aren't counted). It keeps the earliest session's id and the
+ * latest one's overtime; labels, tags, notes and laps are combined in start order.
+ */
+export const combineSessions = (sessions: LogEntry[], updatedAt = Date.now()): LogEntry => {
+    const ordered = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const [first] = ordered;
+    const last = ordered[ordered.length - 1];
+    const tags = ordered
+        .flatMap((session) => session.tags ?? [])
+        .filter((tag, index, all) => all.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === index);
+    const notes = ordered
+        .map((session) => session.notes?.trim())
+        .filter((note, index, all) => note && all.indexOf(note) === index)
+        .join('\n\n');
+    const label = ordered.find((session) => session.label)?.label;
+    const targets = new Set(ordered.map((session) => session.targetDurationMs));
+
+    let offsetMs = 0;
+    const laps: Lap[] = [];
+    ordered.forEach((session) => {
+        session.laps?.forEach((lap) => laps.push({ ...lap, splitMs: lap.splitMs + offsetMs }));
+        offsetMs += session.durationMs;
+    });
+
+    return {
+        id: first.id,
+        startTime: first.startTime,
+        durationMs: offsetMs,
+        kind: first.kind,
+        completed: ordered.every((session) => session.completed),
+        ...(targets.size === 1 && first.targetDurationMs !== undefined
+            ? { targetDurationMs: first.targetDurationMs }
+            : {}),
+        ...(last.overtimeMs ? { overtimeMs: last.overtimeMs } : {}),
+        ...(label ? { label } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(notes ? { notes } : {}),
+        ...(laps.length > 0 ? { laps } : {}),
+        updatedAt
+    };
+};
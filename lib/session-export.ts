@@ -0,0 +1,157 @@
+import type { LogEntry } from '../contexts/SessionContext';
+import { formatClockDuration } from './duration';
+import { formatSessionTime, getDateKey } from './timezone';
+
+// Client-side exports of session history. Timestamps are ISO 8601 in UTC, alongside the
+// start time as shown in History for the chosen timezone.
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mimeType: string }[] = [
+    { value: 'csv', label: 'CSV', mimeType: 'text/csv;charset=utf-8' },
+    { value: 'json', label: 'JSON', mimeType: 'application/json' },
+    { value: 'ics', label: 'iCalendar (.ics)', mimeType: 'text/calendar;charset=utf-8' }
+];
+
+const getEndTime = (session: LogEntry): Date => new Date(session.startTime.getTime() + session.durationMs);
+
+// --- CSV ---
+const CSV_COLUMNS: { header: string; value: (session: LogEntry, timezone: string) => string | number }[] = [
+    { header: 'id', value: (session) => session.id },
+    { header: 'start', value: (session) => session.startTime.toISOString() },
+    { header: 'end', value: (session) => getEndTime(session).toISOString() },
+    { header: 'local_start', value: (session, timezone) => formatSessionTime(session.startTime, timezone) },
+    { header: 'timezone', value: (_, timezone) => timezone },
+    { header: 'type', value: (session) => session.kind },
+    { header: 'duration_ms', value: (session) => session.durationMs },
+    { header: 'duration_seconds', value: (session) => session.durationMs / 1000 },
+    { header: 'duration', value: (session) => formatClockDuration(session.durationMs) },
+    { header: 'target_seconds', value: (session) => session.targetDurationMs / 1000 || '' },
+    { header: 'overtime_seconds', value: (session) => session.overtimeMs / 1000 || '' },
+    { header: 'status', value: (session) => (session.completed ? 'completed' : 'cancelled') },
+    { header: 'label', value: (session) => session.label ?? '' },
+    { header: 'tags', value: (session) => (session.tags ?? []).join('; ') },
+    { header: 'notes', value: (session) => session.notes ?? '' }
+];
+
+const escapeCsv = (value: string | number): string => {
+    if (typeof value === 'number') return String(value);
+    // Spreadsheets run text starting with these as a formula
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionsToCsv = (sessions: LogEntry[], timezone: string): string =>
+    [
+        CSV_COLUMNS.map((column) => column.header).join(','),
+        ...sessions.map((session) => CSV_COLUMNS.map((column) => escapeCsv(column.value(session, timezone))).join(','))
+    ].join('\r\n') + '\r\n';
+
+// --- JSON ---
+export const sessionsToJson = (sessions: LogEntry[], timezone: string): string =>
+    JSON.stringify(
+        {
+            exportedAt: new Date().toISOString(),
+            timezone,
+            sessions: sessions.map((session) => ({
+                id: session.id,
+                start: session.startTime.toISOString(),
+                end: getEndTime(session).toISOString(),
+                localStart: formatSessionTime(session.startTime, timezone),
+                type: session.kind,
+                durationMs: session.durationMs,
+                durationSeconds: session.durationMs / 1000,
+                targetDurationMs: session.targetDurationMs ?? null,
+                overtimeMs: session.overtimeMs ?? null,
+                completed: session.completed,
+                label: session.label ?? null,
+                tags: session.tags ?? [],
+                notes: session.notes ?? null,
+                laps: session.laps ?? []
+            }))
+        },
+        null,
+        2
+    );
+
+// --- iCalendar ---
+// Events use UTC times; X-WR-TIMEZONE tells calendar apps which zone to show them in
+const toIcsTime = (date: Date): string =>
+    date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+
+const escapeIcs = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+export const sessionsToIcs = (sessions: LogEntry[], timezone: string): string => {
+    const stamp = toIcsTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//online-dretec//Session history//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-TIMEZONE:${timezone}`,
+        ...sessions.flatMap((session) => {
+            const title = session.label || `${session.kind[0].toUpperCase()}${session.kind.slice(1)} session`;
+            const description = [
+                `${formatClockDuration(session.durationMs)} (${session.completed ? 'completed' : 'cancelled'})`,
+                session.notes
+            ]
+                .filter(Boolean)
+                .join('\n');
+            return [
+                'BEGIN:VEVENT',
+                `UID:${session.id}@online-dretec`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${toIcsTime(session.startTime)}`,
+                `DTEND:${toIcsTime(getEndTime(session))}`,
+                `SUMMARY:${escapeIcs(title)}`,
+                `DESCRIPTION:${escapeIcs(description)}`,
+                ...(session.tags?.length ? [`CATEGORIES:${session.tags.map(escapeIcs).join(',')}`] : []),
+                'END:VEVENT'
+            ];
+        }),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// --- Download ---
+const SERIALIZERS: Record<ExportFormat, (sessions: LogEntry[], timezone: string) => string> = {
+    csv: sessionsToCsv,
+    json: sessionsToJson,
+    ics: sessionsToIcs
+};
+
+/** Saves `sessions` as a file named after today's date in `timezone`. */
+export const downloadSessions = (sessions: LogEntry[], format: ExportFormat, timezone: string) => {
+    const { mimeType } = EXPORT_FORMATS.find((option) => option.value === format);
+    const blob = new Blob([SERIALIZERS[format](sessions, timezone)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sessions-${getDateKey(new Date(), timezone)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
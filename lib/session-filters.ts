@@ -0,0 +1,91 @@
+import type { LogEntry, SessionKind } from '../contexts/SessionContext';
+import { getDateKey, getWeekKey } from './timezone';
+
+// Filtering, sorting and grouping for lists of sessions (History and its exports).
+
+export interface SessionFilters {
+    kind: 'all' | SessionKind;
+    status: 'all' | 'completed' | 'cancelled';
+    /** Inclusive "YYYY-MM-DD" calendar days in the chosen timezone; '' for no limit */
+    from: string;
+    to: string;
+    /** Duration bounds in minutes; '' for no limit */
+    minMinutes: string;
+    maxMinutes: string;
+    /** Matched against the label, tags and notes */
+    search: string;
+}
+
+export const DEFAULT_SESSION_FILTERS: SessionFilters = {
+    kind: 'all',
+    status: 'all',
+    from: '',
+    to: '',
+    minMinutes: '',
+    maxMinutes: '',
+    search: ''
+};
+
+const matchesSearch = (session: LogEntry, search: string): boolean => {
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return true;
+    const text = [session.label, ...(session.tags ?? []).map((tag) => `#${tag}`), session.notes]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+    return terms.every((term) => text.includes(term));
+};
+
+export const filterSessions = (sessions: LogEntry[], filters: SessionFilters, timezone: string): LogEntry[] => {
+    const minMs = filters.minMinutes === '' ? null : Number(filters.minMinutes) * 60000;
+    const maxMs = filters.maxMinutes === '' ? null : Number(filters.maxMinutes) * 60000;
+    return sessions.filter((session) => {
+        if (filters.kind !== 'all' && session.kind !== filters.kind) return false;
+        if (filters.status !== 'all' && session.completed !== (filters.status === 'completed')) return false;
+        if (filters.from || filters.to) {
+            const day = getDateKey(session.startTime, timezone);
+            if ((filters.from && day < filters.from) || (filters.to && day > filters.to)) return false;
+        }
+        if (minMs !== null && !isNaN(minMs) && session.durationMs < minMs) return false;
+        if (maxMs !== null && !isNaN(maxMs) && session.durationMs > maxMs) return false;
+        return matchesSearch(session, filters.search);
+    });
+};
+
+// --- Sorting ---
+export type SessionSortKey = 'date' | 'kind' | 'duration' | 'target' | 'status';
+export interface SessionSort {
+    key: SessionSortKey;
+    direction: 'asc' | 'desc';
+}
+
+const SORT_VALUES: Record<SessionSortKey, (session: LogEntry) => number | string> = {
+    date: (session) => session.startTime.getTime(),
+    kind: (session) => session.kind,
+    duration: (session) => session.durationMs,
+    // Sessions without a target sort before any target
+    target: (session) => session.targetDurationMs ?? -1,
+    status: (session) => (session.completed ? 1 : 0)
+};
+
+/** Sorted copy; ties fall back to newest first so the order is stable. */
+export const sortSessions = (sessions: LogEntry[], sort: SessionSort): LogEntry[] => {
+    const value = SORT_VALUES[sort.key];
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...sessions].sort((a, b) => {
+        const [left, right] = [value(a), value(b)];
+        if (left < right) return -sign;
+        if (left > right) return sign;
+        return b.startTime.getTime() - a.startTime.getTime();
+    });
+};
+
+// --- Grouping ---
+export type SessionGrouping = 'none' | 'day' | 'week';
+
+/** Day key, or the key of the week's Monday, in `timezone`; '' when not grouping. */
+export const getSessionGroupKey = (session: LogEntry, grouping: SessionGrouping, timezone: string): string => {
+    if (grouping === 'none') return '';
+    const day = getDateKey(session.startTime, timezone);
+    return grouping === 'week' ? getWeekKey(day) : day;
+};
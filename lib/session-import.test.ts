@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEntry } from '../contexts/SessionContext';
+import {
+    ImportRow,
+    markDuplicates,
+    parseCsv,
+    parseImportDuration,
+    parseImportTime,
+    readJsonRows,
+    replaceTombstonedIds
+} from './session-import';
+
+const session = (id: string): LogEntry => ({
+    id,
+    startTime: new Date('2024-03-01T09:00:00Z'),
+    durationMs: 25 * 60 * 1000,
+    kind: 'timer',
+    targetDurationMs: 25 * 60 * 1000,
+    completed: true
+});
+
+describe('replaceTombstonedIds', () => {
+    it('gives sessions with a sync tombstone a fresh id', () => {
+        const [revived, kept] = replaceTombstonedIds([session('purged'), session('live')], { purged: 1700000000000 });
+
+        expect(revived.id).not.toBe('purged');
+        expect(revived).toEqual({ ...session('purged'), id: revived.id });
+        expect(kept.id).toBe('live');
+    });
+
+    it('leaves sessions alone when nothing is tombstoned', () => {
+        const entries = [session('a'), session('b')];
+
+        expect(replaceTombstonedIds(entries, {})).toEqual(entries);
+    });
+});
+
+describe('parseCsv', () => {
+    it('keeps commas, newlines and doubled quotes inside quoted cells', () => {
+        const text =
+            'start,notes\r\n2024-03-01,"one, two"\n2024-03-02,"first line\nsecond line"\n\n2024-03-03,"say ""hi"""';
+
+        expect(parseCsv(text)).toEqual([
+            ['start', 'notes'],
+            ['2024-03-01', 'one, two'],
+            ['2024-03-02', 'first line\nsecond line'],
+            ['2024-03-03', 'say "hi"']
+        ]);
+    });
+
+    it('keeps empty cells and a last row without a line break', () => {
+        expect(parseCsv('a,,c\n,b,')).toEqual([
+            ['a', '', 'c'],
+            ['', 'b', '']
+        ]);
+    });
+});
+
+describe('parseImportTime', () => {
+    it('takes times with a zone or offset as they are', () => {
+        expect(parseImportTime('2024-03-01T09:00:00Z', 'Asia/Tokyo')?.toISOString()).toBe('2024-03-01T09:00:00.000Z');
+        expect(parseImportTime('2024-03-01 09:00:00 +0900', 'UTC')?.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('reads other times as wall-clock times in the given zone', () => {
+        expect(parseImportTime('2024-07-01 09:00', 'America/New_York')?.toISOString()).toBe('2024-07-01T13:00:00.000Z');
+        expect(parseImportTime('2024.03.01 09:30:15 PM', 'America/New_York')?.toISOString()).toBe(
+            '2024-03-02T02:30:15.000Z'
+        );
+        expect(parseImportTime('2024-03-01', 'UTC')?.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('rejects times it cannot read', () => {
+        expect(parseImportTime('2024-13-01 09:00', 'UTC')).toBeNull();
+        expect(parseImportTime('2024-03-01 13:00 PM', 'UTC')).toBeNull();
+        expect(parseImportTime('yesterday', 'UTC')).toBeNull();
+    });
+});
+
+describe('parseImportDuration', () => {
+    it('reads bare numbers in the given unit', () => {
+        expect(parseImportDuration('90', 'seconds')).toBe(90000);
+        expect(parseImportDuration('1.5', 'minutes')).toBe(90000);
+        expect(parseImportDuration('250', 'ms')).toBe(250);
+    });
+
+    it('reads clock and unit formats whatever the unit', () => {
+        expect(parseImportDuration('01:02:03', 'ms')).toBe(3723000);
+        expect(parseImportDuration('02:03.45', 'minutes')).toBe(123450);
+        expect(parseImportDuration('1h 2m 3s', 'ms')).toBe(3723000);
+        expect(parseImportDuration('45s', 'minutes')).toBe(45000);
+    });
+
+    it('gives NaN for anything else', () => {
+        expect(parseImportDuration('soon', 'seconds')).toBeNaN();
+        expect(parseImportDuration('', 'seconds')).toBeNaN();
+    });
+});
+
+describe('markDuplicates', () => {
+    const row = (line: number, entry: LogEntry | null): ImportRow => ({
+        line,
+        entry,
+        errors: entry ? [] : ['Missing start time.'],
+        duplicate: false
+    });
+
+    it('flags sessions already in the history by time or id, and repeats within the file', () => {
+        // CSV times drop the milliseconds that the stored session still has
+        const existing = { ...session('stored'), startTime: new Date('2024-03-01T09:00:00.400Z') };
+        const rows = markDuplicates(
+            [
+                row(2, session('new')),
+                row(3, { ...session('stored'), startTime: new Date('2024-03-02T09:00:00Z') }),
+                row(4, { ...session('other'), startTime: new Date('2024-03-03T09:00:00Z') }),
+                row(5, { ...session('again'), startTime: new Date('2024-03-03T09:00:00Z') }),
+                row(6, null)
+            ],
+            [existing]
+        );
+
+        expect(rows.map((r) => r.duplicate)).toEqual([true, true, false, true, false]);
+    });
+});
+
+describe('readJsonRows', () => {
+    it('reads sessions saved before durations were in milliseconds', () => {
+        const text = JSON.stringify([
+            { id: 'old', startTime: '2024-03-01T09:00:00.000Z', duration: 90, formattedDuration: '00:01:30' },
+            {
+                id: 'older',
+                startTime: '2024-03-01T10:00:00.000Z',
+                kind: 'timer',
+                duration: 1500,
+                targetDuration: 1500
+            }
+        ]);
+
+        expect(readJsonRows(text, 'UTC').map((r) => r.entry)).toEqual([
+            {
+                id: 'old',
+                startTime: new Date('2024-03-01T09:00:00.000Z'),
+                durationMs: 90000,
+                kind: 'stopwatch',
+                completed: true
+            },
+            {
+                id: 'older',
+                startTime: new Date('2024-03-01T10:00:00.000Z'),
+                durationMs: 1500000,
+                kind: 'timer',
+                completed: true,
+                targetDurationMs: 1500000
+            }
+        ]);
+    });
+});
@@ -0,0 +1,342 @@
+import type { Lap, LogEntry, SessionKind } from '../contexts/SessionContext';
+import { createSessionId, validateSessionTimes } from './session-editing';
+import { isLegacySession, normalizeLegacySession } from './storage';
+import { parseTags } from './tags';
+import { zonedTimeToDate } from './timezone';
+
+// Reads history files (our JSON export, or any CSV with a column mapping) into sessions,
+// reporting problems per row and flagging sessions that are already in the history.
+
+export type ImportField =
+    'start' | 'end' | 'duration' | 'type' | 'status' | 'target' | 'overtime' | 'label' | 'tags' | 'notes';
+export type DurationUnit = 'ms' | 'seconds' | 'minutes';
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; aliases: string[] }[] = [
+    { value: 'start', label: 'Start time', aliases: ['start', 'starttime', 'start_time', 'begin', 'date'] },
+    { value: 'end', label: 'End time', aliases: ['end', 'endtime', 'end_time', 'finish'] },
+    {
+        value: 'duration',
+        label: 'Duration',
+        // Seconds before ms, so our export's duration, target and overtime columns share a unit
+        aliases: ['duration_seconds', 'duration', 'duration_ms', 'durationms', 'seconds', 'minutes']
+    },
+    { value: 'type', label: 'Type', aliases: ['type', 'kind', 'mode'] },
+    { value: 'status', label: 'Status', aliases: ['status', 'completed'] },
+    { value: 'target', label: 'Target', aliases: ['target_seconds', 'target'] },
+    { value: 'overtime', label: 'Overtime', aliases: ['overtime_seconds', 'overtime'] },
+    { value: 'label', label: 'Label', aliases: ['label', 'name', 'title'] },
+    { value: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'categories'] },
+    { value: 'notes', label: 'Notes', aliases: ['notes', 'note', 'description', 'comment'] }
+];
+
+export const DURATION_UNITS: { value: DurationUnit; label: string; ms: number }[] = [
+    { value: 'ms', label: 'Milliseconds', ms: 1 },
+    { value: 'seconds', label: 'Seconds', ms: 1000 },
+    { value: 'minutes', label: 'Minutes', ms: 60000 }
+];
+
+/** Column index for each field (null when not imported), and the unit of bare duration and target numbers */
+export interface ColumnMapping {
+    columns: Record<ImportField, number | null>;
+    durationUnit: DurationUnit;
+    /** Timezone for times without an offset */
+    timezone: string;
+}
+
+export interface ImportRow {
+    /** Line in the file (CSV) or position in the list (JSON), from 1 */
+    line: number;
+    entry: LogEntry | null;
+    errors: string[];
+    /** Already in the history, or earlier in the same file */
+    duplicate: boolean;
+}
+
+const SESSION_KINDS: SessionKind[] = ['timer', 'stopwatch', 'interval'];
+
+// --- CSV ---
+/** Rows of cells, following RFC 4180 quoting. Blank lines are dropped. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) rows.push([...row, cell]);
+    return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+const normalizeHeader = (header: string): string =>
+    header
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_');
+
+/** Matches headers to fields by name, so our own CSV export maps itself. */
+export const guessColumnMapping = (headers: string[], timezone: string): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const columns = Object.fromEntries(
+        IMPORT_FIELDS.map((field) => {
+            const alias = field.aliases.find((name) => normalized.includes(name));
+            return [field.value, alias ? normalized.indexOf(alias) : null];
+        })
+    ) as Record<ImportField, number | null>;
+    const durationHeader = columns.duration === null ? '' : normalized[columns.duration];
+    const durationUnit = durationHeader.includes('ms')
+        ? 'ms'
+        : durationHeader.includes('minute')
+          ? 'minutes'
+          : 'seconds';
+    return { columns, durationUnit, timezone };
+};
+
+// --- Values ---
+const ABSOLUTE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+const WALL_CLOCK_TIME =
+    /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[T ]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*(AM|PM)?)?$/i;
+
+/**
+ * Times with "Z" or an offset are taken as they are. Others, including History's
+ * "YYYY.MM.DD hh:mm:ss AM", are wall-clock times in `timezone`.
+ */
+export const parseImportTime = (value: string, timezone: string): Date | null => {
+    const text = value.trim();
+    if (ABSOLUTE_TIME.test(text)) {
+        const date = new Date(
+            text
+                .replace(' ', 'T')
+                .replace(/\s+/g, '')
+                .replace(/([+-]\d{2})(\d{2})$/, '$1:$2')
+        );
+        return isNaN(date.getTime()) ? null : date;
+    }
+    const match = text.match(WALL_CLOCK_TIME);
+    if (!match) return null;
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '', meridiem] = match;
+    let hours = Number(hour);
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        hours = (hours % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    if (Number(month) > 12 || Number(day) > 31 || hours > 23 || Number(minute) > 59 || Number(second) > 59) {
+        return null;
+    }
+    const pad = (part: string | number) => String(part).padStart(2, '0');
+    const date = zonedTimeToDate(
+        `${year}-${pad(month)}-${pad(day)}`,
+        `${pad(hours)}:${pad(minute)}:${pad(second)}`,
+        timezone
+    );
+    return new Date(date.getTime() + Number(fraction.padEnd(3, '0')));
+};
+
+/** "hh:mm:ss(.cc)", "mm:ss", "1h 2m 3s", or a bare number in `unit`. NaN when unreadable. */
+export const parseImportDuration = (value: string, unit: DurationUnit): number => {
+    const text = value.trim();
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return Math.round(Number(text) * DURATION_UNITS.find((option) => option.value === unit).ms);
+    }
+    const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+    if (clock) {
+        const [, hours = '0', minutes, seconds] = clock;
+        return Math.round((Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000);
+    }
+    const units = text.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+(?:\.\d+)?)\s*s)?$/i);
+    if (units && text) {
+        const [, hours = '0', minutes = '0', seconds = '0'] = units;
+        return Math.round((Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000);
+    }
+    return NaN;
+};
+
+const parseStatus = (value: string): boolean | null => {
+    const text = value.trim().toLowerCase();
+    if (['', 'completed', 'complete', 'true', 'yes', '1'].includes(text)) return true;
+    if (['cancelled', 'canceled', 'false', 'no', '0'].includes(text)) return false;
+    return null;
+};
+
+// --- Rows ---
+interface RawSession {
+    id?: string;
+    start: string;
+    end?: string;
+    duration?: string;
+    type?: string;
+    status?: string;
+    target?: string;
+    overtime?: string;
+    label?: string;
+    tags?: string;
+    notes?: string;
+    laps?: Lap[];
+}
+
+const toImportRow = (line: number, raw: RawSession, durationUnit: DurationUnit, timezone: string): ImportRow => {
+    const errors: string[] = [];
+    const startTime = raw.start?.trim() ? parseImportTime(raw.start, timezone) : null;
+    if (!startTime) errors.push(raw.start?.trim() ? `Unrecognised start time "${raw.start}".` : 'Missing start time.');
+
+    let durationMs = NaN;
+    if (raw.duration?.trim()) {
+        durationMs = parseImportDuration(raw.duration, durationUnit);
+        if (isNaN(durationMs)) errors.push(`Unrecognised duration "${raw.duration}".`);
+    } else if (raw.end?.trim()) {
+        const endTime = parseImportTime(raw.end, timezone);
+        if (!endTime) errors.push(`Unrecognised end time "${raw.end}".`);
+        else if (startTime) durationMs = endTime.getTime() - startTime.getTime();
+    } else {
+        errors.push('Missing duration or end time.');
+    }
+    if (startTime && !isNaN(durationMs)) errors.push(...validateSessionTimes(startTime, durationMs));
+
+    const kind = (raw.type?.trim().toLowerCase() || 'stopwatch') as SessionKind;
+    if (!SESSION_KINDS.includes(kind)) errors.push(`Unknown type "${raw.type}".`);
+    const completed = parseStatus(raw.status ?? '');
+    if (completed === null) errors.push(`Unknown status "${raw.status}".`);
+    const targetDurationMs = raw.target?.trim() ? parseImportDuration(raw.target, durationUnit) : undefined;
+    if (targetDurationMs !== undefined && !(targetDurationMs >= 0)) errors.push(`Unrecognised target "${raw.target}".`);
+    const overtimeMs = raw.overtime?.trim() ? parseImportDuration(raw.overtime, durationUnit) : undefined;
+    if (overtimeMs !== undefined && !(overtimeMs >= 0)) errors.push(`Unrecognised overtime "${raw.overtime}".`);
+
+    if (errors.length > 0) return { line, entry: null, errors, duplicate: false };
+    const tags = parseTags((raw.tags ?? '').replace(/;/g, ','));
+    return {
+        line,
+        entry: {
+            id: raw.id?.trim() || createSessionId(),
+            startTime,
+            durationMs,
+            kind,
+            completed,
+            ...(targetDurationMs ? { targetDurationMs } : {}),
+            ...(overtimeMs ? { overtimeMs } : {}),
+            ...(raw.label?.trim() ? { label: raw.label.trim().slice(0, 50) } : {}),
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(raw.notes?.trim() ? { notes: raw.notes.trim() } : {}),
+            ...(raw.laps?.length ? { laps: raw.laps } : {})
+        },
+        errors,
+        duplicate: false
+    };
+};
+
+/** Rows of a CSV file after its header, read with `mapping`. */
+export const readCsvRows = (rows: string[][], mapping: ColumnMapping): ImportRow[] =>
+    rows.slice(1).map((cells, index) => {
+        // Undoes the quote our CSV export puts before text that looks like a formula
+        const cell = (field: ImportField) =>
+            mapping.columns[field] === null
+                ? undefined
+                : (cells[mapping.columns[field]] ?? '').replace(/^'(?=[=+\-@])/, '');
+        const raw: RawSession = {
+            start: cell('start'),
+            end: cell('end'),
+            duration: cell('duration'),
+            type: cell('type'),
+            status: cell('status'),
+            target: cell('target'),
+            overtime: cell('overtime'),
+            label: cell('label'),
+            tags: cell('tags'),
+            notes: cell('notes')
+        };
+        return toImportRow(index + 2, raw, mapping.durationUnit, mapping.timezone);
+    });
+
+const isLap = (lap: unknown): lap is Lap =>
+    typeof lap === 'object' &&
+    lap !== null &&
+    'splitMs' in lap &&
+    'lapMs' in lap &&
+    Number.isFinite(lap.splitMs) &&
+    Number.isFinite(lap.lapMs);
+
+const jsonText = (value: unknown): string | undefined =>
+    value === undefined || value === null ? undefined : String(value);
+
+/**
+ * Sessions from our JSON export, a saved app state, or a bare list of sessions in either
+ * shape. Throws when the file isn't JSON or has no list of sessions.
+ */
+export const readJsonRows = (text: string, timezone: string): ImportRow[] => {
+    const data = JSON.parse(text);
+    const items = Array.isArray(data) ? data : data?.sessions;
+    if (!Array.isArray(items)) throw new Error('No list of sessions found in this file.');
+    return items.map((value, index) => {
+        // Backups from before durations were stored in milliseconds
+        const item =
+            isLegacySession(value) && typeof value.duration === 'number' ? normalizeLegacySession(value) : value;
+        const durationMs =
+            item?.durationMs ?? (item?.durationSeconds === undefined ? undefined : item.durationSeconds * 1000);
+        const raw: RawSession = {
+            id: jsonText(item?.id),
+            start: jsonText(item?.start ?? item?.startTime),
+            end: jsonText(item?.end),
+            duration: jsonText(durationMs),
+            type: jsonText(item?.type ?? item?.kind),
+            status: jsonText(item?.completed),
+            target: jsonText(item?.targetDurationMs),
+            overtime: jsonText(item?.overtimeMs),
+            label: jsonText(item?.label),
+            tags: Array.isArray(item?.tags) ? item.tags.join(',') : jsonText(item?.tags),
+            notes: jsonText(item?.notes),
+            laps: Array.isArray(item?.laps) ? item.laps.filter(isLap) : undefined
+        };
+        return toImportRow(index + 1, raw, 'ms', timezone);
+    });
+};
+
+// --- Duplicates ---
+// Compared to the second, since CSV times and "hh:mm:ss" durations drop milliseconds
+const getDuplicateKey = (session: LogEntry): string =>
+    `${Math.floor(session.startTime.getTime() / 1000)}|${Math.round(session.durationMs / 1000)}`;
+
+/**
+ * Flags rows whose session has the same start time and duration as one already in
+ * `existing` (or the same id), or as an earlier row of the file.
+ */
+export const markDuplicates = (rows: ImportRow[], existing: LogEntry[]): ImportRow[] => {
+    const keys = new Set(existing.map(getDuplicateKey));
+    const ids = new Set(existing.map((session) => session.id));
+    return rows.map((row) => {
+        if (!row.entry) return row;
+        const key = getDuplicateKey(row.entry);
+        const duplicate = keys.has(key) || ids.has(row.entry.id);
+        keys.add(key);
+        ids.add(row.entry.id);
+        return { ...row, duplicate };
+    });
+};
+
+/**
+ * Gives sessions a fresh id where theirs has a sync tombstone (they were purged or merged
+ * away), since the next sync drops every tombstoned id.
+ */
+export const replaceTombstonedIds = (entries: LogEntry[], deleted: Record<string, number>): LogEntry[] =>
+    entries.map((entry) => (Object.hasOwn(deleted, entry.id) ? { ...entry, id: createSessionId() } : entry));
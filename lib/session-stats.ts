@@ -0,0 +1,84 @@
+import type { LogEntry } from '../contexts/SessionContext';
+import { addDaysToKey, getDateKey, getTimeKey, getWeekKey } from './timezone';
+
+// Aggregates for the Stats page. Every bucket is a calendar day, week (from Monday) or month
+// in the chosen timezone, keyed by the "YYYY-MM-DD" day it starts on.
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export interface PeriodTotal {
+    key: string;
+    count: number;
+    durationMs: number;
+}
+
+export const getPeriodKey = (dayKey: string, period: StatsPeriod): string =>
+    period === 'day' ? dayKey : period === 'week' ? getWeekKey(dayKey) : `${dayKey.slice(0, 7)}-01`;
+
+const shiftPeriodKey = (key: string, period: StatsPeriod, steps: number): string => {
+    if (period === 'day') return addDaysToKey(key, steps);
+    if (period === 'week') return addDaysToKey(key, steps * 7);
+    const date = new Date(`${key}T00:00:00Z`);
+    date.setUTCMonth(date.getUTCMonth() + steps);
+    return date.toISOString().slice(0, 10);
+};
+
+/** The last `count` periods up to the current one, oldest first, including empty ones. */
+export const getPeriodTotals = (
+    sessions: LogEntry[],
+    period: StatsPeriod,
+    timezone: string,
+    count: number,
+    now = new Date()
+): PeriodTotal[] => {
+    const current = getPeriodKey(getDateKey(now, timezone), period);
+    const totals = new Map<string, PeriodTotal>();
+    for (let i = count - 1; i >= 0; i--) {
+        const key = shiftPeriodKey(current, period, -i);
+        totals.set(key, { key, count: 0, durationMs: 0 });
+    }
+    sessions.forEach((session) => {
+        const total = totals.get(getPeriodKey(getDateKey(session.startTime, timezone), period));
+        if (!total) return;
+        total.count++;
+        total.durationMs += session.durationMs;
+    });
+    return Array.from(totals.values());
+};
+
+/** Total time per "YYYY-MM-DD" day. */
+export const getDailyTotals = (sessions: LogEntry[], timezone: string): Map<string, number> => {
+    const totals = new Map<string, number>();
+    sessions.forEach((session) => {
+        const key = getDateKey(session.startTime, timezone);
+        totals.set(key, (totals.get(key) ?? 0) + session.durationMs);
+    });
+    return totals;
+};
+
+/** Sessions and total time by the hour of day (0-23) they started in. */
+export const getHourlyDistribution = (sessions: LogEntry[], timezone: string): PeriodTotal[] => {
+    const hours = Array.from({ length: 24 }, (_, hour) => ({ key: String(hour), count: 0, durationMs: 0 }));
+    sessions.forEach((session) => {
+        const hour = hours[Number(getTimeKey(session.startTime, timezone).slice(0, 2))];
+        hour.count++;
+        hour.durationMs += session.durationMs;
+    });
+    return hours;
+};
+
+/** Value at `percentile` (0-100) of ascending `values`, interpolating between neighbours. */
+export const getPercentile = (values: number[], percentile: number): number => {
+    if (values.length === 0) return 0;
+    const position = (values.length - 1) * (percentile / 100);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return values[lower] + (values[upper] - values[lower]) * (position - lower);
+};
+
+/**
+ * Change from the previous period to the current one as a fraction (0.25 for +25%), or
+ * null when the previous period is empty.
+ */
+export const getChange = (current: number, previous: number): number | null =>
+    previous > 0 ? (current - previous) / previous : null;
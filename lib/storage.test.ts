@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { deserializeState, serializeState, STORAGE_VERSION } from './storage';
+
+const read = (data: unknown) => deserializeState(JSON.stringify(data));
+
+const startTime = '2024-03-01T09:00:00.000Z';
+
+describe('deserializeState migrations', () => {
+    it('reads a bare v0 array of stopwatch runs', () => {
+        const state = read([{ id: 'a', startTime, duration: 90, formattedDuration: '00:01:30' }]);
+
+        expect(state).toEqual({
+            sessions: [
+                { id: 'a', startTime: new Date(startTime), durationMs: 90000, kind: 'stopwatch', completed: true }
+            ],
+            deleted: {},
+            settings: { timezone: '' },
+            presets: []
+        });
+    });
+
+    it('adds tombstones to v1 payloads', () => {
+        const state = read({ version: 1, sessions: [], settings: { timezone: 'UTC' } });
+
+        expect(state.deleted).toEqual({});
+        expect(state.settings).toEqual({ timezone: 'UTC' });
+    });
+
+    it('marks sessions from before countdowns were logged as completed stopwatch runs', () => {
+        const state = read({ version: 2, sessions: [{ id: 'a', startTime, durationMs: 5000 }], deleted: { b: 1 } });
+
+        expect(state.sessions).toEqual([
+            { id: 'a', startTime: new Date(startTime), durationMs: 5000, kind: 'stopwatch', completed: true }
+        ]);
+        expect(state.deleted).toEqual({ b: 1 });
+    });
+
+    it('keeps the kind and status of sessions that already have them', () => {
+        const session = { id: 'a', startTime, durationMs: 5000, kind: 'timer', completed: false };
+
+        expect(read({ version: 2, sessions: [session], deleted: {} }).sessions).toEqual([
+            { ...session, startTime: new Date(startTime) }
+        ]);
+    });
+
+    it('converts v3 durations to milliseconds', () => {
+        const state = read({
+            version: 3,
+            sessions: [
+                { id: 'seconds', startTime, kind: 'timer', completed: true, duration: 1500, targetDuration: 1500 },
+                // Stopwatch runs were stored in hundredths, shown as "mm:ss"
+                {
+                    id: 'hundredths',
+                    startTime,
+                    kind: 'stopwatch',
+                    completed: true,
+                    duration: 456,
+                    formattedDuration: '00:04'
+                }
+            ],
+            deleted: {}
+        });
+
+        expect(
+            state.sessions.map(({ id, durationMs, targetDurationMs }) => ({ id, durationMs, targetDurationMs }))
+        ).toEqual([
+            { id: 'seconds', durationMs: 1500000, targetDurationMs: 1500000 },
+            { id: 'hundredths', durationMs: 4560, targetDurationMs: undefined }
+        ]);
+        expect(state.sessions[0]).not.toHaveProperty('duration');
+    });
+
+    it('adds presets to v4 payloads', () => {
+        expect(read({ version: 4, sessions: [], deleted: {}, settings: {} }).presets).toEqual([]);
+    });
+
+    it('drops malformed sessions, tombstones and presets', () => {
+        const state = read({
+            version: STORAGE_VERSION,
+            sessions: [{ id: 'a', startTime: 'never', durationMs: 1 }],
+            deleted: { b: 'yesterday', c: 2 },
+            settings: { timezone: 'UTC' },
+            presets: [{ id: 'p' }]
+        });
+
+        expect(state).toMatchObject({ sessions: [], deleted: { c: 2 }, presets: [] });
+    });
+
+    it('round-trips the current version', () => {
+        const state = {
+            sessions: [
+                { id: 'a', startTime: new Date(startTime), durationMs: 5000, kind: 'timer' as const, completed: true }
+            ],
+            deleted: { b: 1 },
+            settings: { timezone: 'Asia/Tokyo', timezoneChosen: true },
+            presets: [{ id: 'p', name: 'Tea', durationMs: 180000 }]
+        };
+
+        expect(deserializeState(serializeState(state))).toEqual(state);
+    });
+
+    it('refuses data from a newer version instead of reading it as empty', () => {
+        const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(read({ version: STORAGE_VERSION + 1, sessions: [{ id: 'a', startTime, durationMs: 1 }] })).toBeNull();
+        expect(deserializeState('{not json')).toBeNull();
+        logError.mockRestore();
+    });
+});
@@ -0,0 +1,259 @@
+import type { AlarmSettings, ClockAlarm, Goal, IntervalConfig, LogEntry, Preset } from '../contexts/SessionContext';
+import type { DisplaySettings } from './timezone';
+import { legacyDurationToMs } from './duration';
+import { sanitizePresets } from './presets';
+
+// --- Constants ---
+export const STORAGE_VERSION = 5;
+const DB_NAME = 'dretec-online';
+const DB_STORE = 'state';
+const STATE_KEY = 'dretec-online:sessions';
+const CHANNEL_NAME = 'dretec-online:sessions';
+
+// --- Types ---
+export interface PersistedSettings {
+    timezone: string;
+    /** False while `timezone` is the detected one, which is detected again on each load */
+    timezoneChosen?: boolean;
+    display?: DisplaySettings;
+    interval?: IntervalConfig;
+    alarm?: AlarmSettings;
+    trashRetentionDays?: number;
+    goals?: Goal[];
+    /** Extra zones the clock cycles through after `timezone` */
+    worldClocks?: string[];
+    alarms?: ClockAlarm[];
+}
+export interface PersistedState {
+    sessions: LogEntry[];
+    /** Deletion time (ms) of each removed session id, kept so sync doesn't resurrect it */
+    deleted: Record<string, number>;
+    settings: PersistedSettings;
+    presets: Preset[];
+}
+export type SerializedLogEntry = Omit<LogEntry, 'startTime'> & { startTime: string };
+/** A serialized session that may predate durations being stored in milliseconds */
+export type LegacySession = Omit<SerializedLogEntry, 'durationMs'> & {
+    durationMs?: number;
+    duration?: number;
+    formattedDuration?: string;
+    targetDuration?: number;
+};
+interface StorageBackend {
+    read: () => Promise<string | null>;
+    write: (value: string) => Promise<void>;
+}
+
+// --- Migrations ---
+// Raw payloads are parsed JSON of any age, so each step checks the shape it relies on.
+type StoredData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredData =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): StoredData => (isRecord(value) ? value : {});
+
+const storedSessions = (data: StoredData): StoredData[] =>
+    Array.isArray(data.sessions) ? data.sessions.filter(isRecord) : [];
+
+/** Keeps the entries of a tombstone map whose deletion time is a number. */
+export const sanitizeTombstones = (value: unknown): Record<string, number> => {
+    const deleted: Record<string, number> = {};
+    Object.entries(asRecord(value)).forEach(([id, deletedAt]) => {
+        if (typeof deletedAt === 'number') deleted[id] = deletedAt;
+    });
+    return deleted;
+};
+
+// Each entry upgrades a raw payload from version (key - 1) to version key.
+const MIGRATIONS: { [version: number]: (data: unknown) => StoredData } = {
+    // Unversioned payloads were a bare array of sessions
+    1: (data) => (Array.isArray(data) ? { sessions: data, settings: {} } : asRecord(data)),
+    2: (data) => ({ ...asRecord(data), deleted: {} }),
+    // Only stopwatch runs could be logged before countdowns were recorded
+    3: (data) => {
+        const stored = asRecord(data);
+        return {
+            ...stored,
+            sessions: storedSessions(stored).map((session) => ({ kind: 'stopwatch', completed: true, ...session }))
+        };
+    },
+    4: (data) => {
+        const stored = asRecord(data);
+        return { ...stored, sessions: storedSessions(stored).filter(isLegacySession).map(normalizeLegacySession) };
+    },
+    5: (data) => ({ ...asRecord(data), presets: [] })
+};
+
+/** Sessions every version stored with a string id and start time; other fields are read as saved. */
+export const isLegacySession = (session: unknown): session is LegacySession =>
+    isRecord(session) && typeof session.id === 'string' && typeof session.startTime === 'string';
+
+/** Moves a session from unit-less `duration`/`targetDuration` to milliseconds. */
+export const normalizeLegacySession = (session: LegacySession): SerializedLogEntry => {
+    // Reassigning keeps the key order, so a session that round-trips through sync serializes the same
+    if (typeof session.durationMs === 'number') return { ...session, durationMs: session.durationMs };
+    const { duration, formattedDuration, targetDuration, ...rest } = session;
+    return {
+        ...rest,
+        durationMs: legacyDurationToMs({ duration, formattedDuration }),
+        ...(typeof targetDuration === 'number' ? { targetDurationMs: targetDuration * 1000 } : {})
+    };
+};
+
+const migrate = (data: unknown): StoredData => {
+    let version = isRecord(data) && typeof data.version === 'number' ? data.version : 0;
+    if (version > STORAGE_VERSION) {
+        throw new Error(`Stored session data is from a newer version (${version})`);
+    }
+    while (version < STORAGE_VERSION) {
+        version += 1;
+        data = MIGRATIONS[version](data);
+    }
+    return { ...asRecord(data), version };
+};
+
+// --- Serialization ---
+export const serializeSession = (session: LogEntry): SerializedLogEntry => ({
+    ...session,
+    startTime: session.startTime.toISOString()
+});
+
+/** Returns null for entries whose start time can't be parsed. */
+export const deserializeSession = (session: SerializedLogEntry): LogEntry | null => {
+    const startTime = new Date(session.startTime);
+    return isNaN(startTime.getTime()) ? null : { ...session, startTime };
+};
+
+export const serializeState = (state: PersistedState): string =>
+    JSON.stringify({
+        version: STORAGE_VERSION,
+        sessions: state.sessions.map(serializeSession),
+        deleted: state.deleted,
+        settings: state.settings,
+        presets: state.presets
+    });
+
+export const deserializeState = (raw: string): PersistedState | null => {
+    try {
+        const data = migrate(JSON.parse(raw));
+        const sessions: LogEntry[] = (Array.isArray(data.sessions) ? data.sessions : [])
+            .map(deserializeSession)
+            .filter(Boolean);
+        return {
+            sessions,
+            deleted: sanitizeTombstones(data.deleted),
+            // Settings are only written by serializeState; each field falls back to its default when read
+            settings: { timezone: '', ...(asRecord(data.settings) as Partial<PersistedSettings>) },
+            presets: sanitizePresets(data.presets)
+        };
+    } catch (error) {
+        console.error('Error reading stored sessions:', error);
+        return null;
+    }
+};
+
+// --- Backends ---
+const localStorageBackend: StorageBackend = {
+    read: async () => window.localStorage.getItem(STATE_KEY),
+    write: async (value) => window.localStorage.setItem(STATE_KEY, value)
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = window.indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    openDatabase().then(
+        (db) =>
+            new Promise<T>((resolve, reject) => {
+                const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            })
+    );
+
+const indexedDBBackend: StorageBackend = {
+    read: async () => (await runTransaction<string | undefined>('readonly', (store) => store.get(STATE_KEY))) ?? null,
+    write: async (value) => {
+        await runTransaction('readwrite', (store) => store.put(value, STATE_KEY));
+    }
+};
+
+// IndexedDB can be missing or refuse to open (e.g. some private browsing modes), so
+// every operation falls back to localStorage when it fails.
+const withFallback = async <T>(operation: (backend: StorageBackend) => Promise<T>): Promise<T> => {
+    if (typeof window.indexedDB !== 'undefined') {
+        try {
+            return await operation(indexedDBBackend);
+        } catch (error) {
+            console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+        }
+    }
+    return operation(localStorageBackend);
+};
+
+// Stored data that can't be read (corrupt, or from a newer version) mustn't look like a first run
+const readStoredState = (raw: string): PersistedState => {
+    const state = deserializeState(raw);
+    if (!state) throw new Error('Stored session data could not be read');
+    return state;
+};
+
+// --- Public API ---
+/** Null when nothing is stored yet; rejects when something is stored but can't be read. */
+export const loadPersistedState = async (): Promise<PersistedState | null> => {
+    if (typeof window === 'undefined') return null;
+    const raw = await withFallback((backend) => backend.read());
+    if (raw) return readStoredState(raw);
+    // Data written by the localStorage fallback before IndexedDB became available
+    const legacy = window.localStorage.getItem(STATE_KEY);
+    return legacy ? readStoredState(legacy) : null;
+};
+
+export const savePersistedState = async (serialized: string): Promise<void> => {
+    if (typeof window === 'undefined') return;
+    try {
+        await withFallback((backend) => backend.write(serialized));
+    } catch (error) {
+        console.error('Error saving sessions:', error);
+        return;
+    }
+    if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.postMessage(serialized);
+        channel.close();
+    }
+};
+
+/** Calls `listener` with the serialized state whenever another tab saves. */
+export const subscribeToPersistedState = (listener: (serialized: string) => void): (() => void) => {
+    if (typeof window === 'undefined') return () => {};
+
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data === 'string') listener(event.data);
+    };
+    // The storage event only fires for the localStorage fallback, and only covers
+    // browsers without BroadcastChannel.
+    const handleStorage = (event: StorageEvent) => {
+        if (!channel && event.key === STATE_KEY && event.newValue) listener(event.newValue);
+    };
+
+    channel?.addEventListener('message', handleMessage);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        channel?.removeEventListener('message', handleMessage);
+        channel?.close();
+        window.removeEventListener('storage', handleStorage);
+    };
+};
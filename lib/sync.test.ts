@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { SerializedLogEntry } from './storage';
+import { getSyncFingerprint, mergeSyncPayloads, sanitizeSyncPayload, SyncPayload } from './sync';
+
+const session = (id: string, updatedAt: number, changes: Partial<SerializedLogEntry> = {}): SerializedLogEntry => ({
+    id,
+    startTime: '2024-03-01T09:00:00.000Z',
+    durationMs: 60000,
+    kind: 'stopwatch',
+    completed: true,
+    updatedAt,
+    ...changes
+});
+
+describe('mergeSyncPayloads', () => {
+    it('keeps the most recently updated copy of a session', () => {
+        const older = session('a', 1, { notes: 'old' });
+        const newer = session('a', 2, { notes: 'new' });
+
+        expect(mergeSyncPayloads({ sessions: [older], deleted: {} }, { sessions: [newer], deleted: {} })).toEqual({
+            sessions: [newer],
+            deleted: {}
+        });
+        expect(
+            mergeSyncPayloads({ sessions: [newer], deleted: {} }, { sessions: [older], deleted: {} }).sessions
+        ).toEqual([newer]);
+    });
+
+    it('drops sessions with a tombstone', () => {
+        const merged = mergeSyncPayloads(
+            { sessions: [session('a', 1)], deleted: {} },
+            { sessions: [], deleted: { a: 5 } }
+        );
+
+        expect(merged).toEqual({ sessions: [], deleted: { a: 5 } });
+    });
+
+    it('keeps sessions edited after they were tombstoned', () => {
+        const edited = session('a', 9);
+        const merged = mergeSyncPayloads({ sessions: [edited], deleted: {} }, { sessions: [], deleted: { a: 5 } });
+
+        expect(merged).toEqual({ sessions: [edited], deleted: { a: 5 } });
+    });
+
+    it('keeps the later of two deletion times', () => {
+        expect(
+            mergeSyncPayloads({ sessions: [], deleted: { a: 5 } }, { sessions: [], deleted: { a: 3 } }).deleted
+        ).toEqual({ a: 5 });
+    });
+
+    it('gives the same result whichever side is local', () => {
+        const a: SyncPayload = {
+            sessions: [session('x', 1), session('y', 2, { startTime: '2024-03-02T09:00:00.000Z' })],
+            deleted: { z: 4 }
+        };
+        const b: SyncPayload = { sessions: [session('w', 3), session('x', 5)], deleted: { q: 1 } };
+
+        expect(JSON.stringify(mergeSyncPayloads(a, b))).toBe(JSON.stringify(mergeSyncPayloads(b, a)));
+    });
+
+    it('is idempotent, including after a round trip through the server', () => {
+        const merged = mergeSyncPayloads(
+            { sessions: [session('x', 1), session('y', 2)], deleted: { z: 4 } },
+            { sessions: [session('y', 3)], deleted: {} }
+        );
+        const echoed = sanitizeSyncPayload(JSON.parse(JSON.stringify(merged)));
+
+        expect(JSON.stringify(echoed)).toBe(JSON.stringify(merged));
+        expect(JSON.stringify(mergeSyncPayloads(merged, echoed))).toBe(JSON.stringify(merged));
+    });
+});
+
+describe('sanitizeSyncPayload', () => {
+    it('drops malformed sessions and tombstones', () => {
+        const payload = sanitizeSyncPayload({
+            sessions: [session('a', 1), { id: 'b' }, null, session('c', 1, { startTime: 'soon' })],
+            deleted: { d: 2, e: 'yesterday' }
+        });
+
+        expect(payload).toEqual({ sessions: [session('a', 1)], deleted: { d: 2 } });
+    });
+
+    it('converts sessions pushed before durations were in milliseconds', () => {
+        const { sessions } = sanitizeSyncPayload({
+            sessions: [{ id: 'a', startTime: '2024-03-01T09:00:00.000Z', duration: 90, formattedDuration: '00:01:30' }]
+        });
+
+        expect(sessions).toEqual([{ id: 'a', startTime: '2024-03-01T09:00:00.000Z', durationMs: 90000 }]);
+    });
+
+    it('reads anything that is not an object as an empty payload', () => {
+        expect(sanitizeSyncPayload(null)).toEqual({ sessions: [], deleted: {} });
+        expect(sanitizeSyncPayload('sessions')).toEqual({ sessions: [], deleted: {} });
+    });
+});
+
+describe('getSyncFingerprint', () => {
+    it('ignores session order and key order', () => {
+        const a = session('a', 1);
+        const reordered = { durationMs: a.durationMs, ...a };
+
+        expect(getSyncFingerprint({ sessions: [a, session('b', 2)], deleted: { c: 1, d: 2 } })).toBe(
+            getSyncFingerprint({ sessions: [session('b', 2), reordered], deleted: { d: 2, c: 1 } })
+        );
+    });
+
+    it('changes when a session is updated', () => {
+        expect(getSyncFingerprint({ sessions: [session('a', 1)], deleted: {} })).not.toBe(
+            getSyncFingerprint({ sessions: [session('a', 2)], deleted: {} })
+        );
+    });
+});
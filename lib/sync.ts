@@ -0,0 +1,96 @@
+import { isLegacySession, normalizeLegacySession, sanitizeTombstones, SerializedLogEntry } from './storage';
+
+// --- Constants ---
+const DEVICE_ID_KEY = 'dretec-online:device-id';
+const SYNC_ENDPOINT = '/api/sessions';
+export const DEVICE_ID_HEADER = 'x-device-id';
+export const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// --- Types ---
+export interface SyncPayload {
+    sessions: SerializedLogEntry[];
+    deleted: Record<string, number>;
+}
+
+// --- Merging ---
+// Sessions are merged by id: the most recently updated copy wins, and it's dropped
+// unless it was edited after its tombstone. The result (including key order) doesn't
+// depend on argument order, so the client and the server always agree on the merged state.
+export const mergeSyncPayloads = (a: SyncPayload, b: SyncPayload): SyncPayload => {
+    const deleted: Record<string, number> = {};
+    Object.keys({ ...a.deleted, ...b.deleted })
+        .sort()
+        .forEach((id) => {
+            deleted[id] = Math.max(a.deleted[id] ?? 0, b.deleted[id] ?? 0);
+        });
+
+    const byId = new Map<string, SerializedLogEntry>();
+    [...a.sessions, ...b.sessions].forEach((session) => {
+        if (deleted[session.id] !== undefined && (session.updatedAt ?? 0) <= deleted[session.id]) return;
+        const existing = byId.get(session.id);
+        if (!existing || (session.updatedAt ?? 0) > (existing.updatedAt ?? 0)) {
+            byId.set(session.id, session);
+        }
+    });
+
+    const sessions = Array.from(byId.values()).sort(
+        (x, y) => y.startTime.localeCompare(x.startTime) || y.id.localeCompare(x.id)
+    );
+    return { sessions, deleted };
+};
+
+/** Identifies a payload by its session ids, versions and tombstones, whatever their order. */
+export const getSyncFingerprint = (payload: SyncPayload): string =>
+    JSON.stringify([
+        payload.sessions.map((session) => `${session.id}@${session.updatedAt ?? 0}`).sort(),
+        Object.entries(payload.deleted)
+            .map(([id, deletedAt]) => `${id}@${deletedAt}`)
+            .sort()
+    ]);
+
+export const isSamePayload = (a: SyncPayload, b: SyncPayload): boolean =>
+    getSyncFingerprint(a) === getSyncFingerprint(b);
+
+/** Drops malformed entries from an untrusted payload. */
+export const sanitizeSyncPayload = (data: unknown): SyncPayload => {
+    if (typeof data !== 'object' || data === null) return { sessions: [], deleted: {} };
+    const sessions = 'sessions' in data && Array.isArray(data.sessions) ? data.sessions : [];
+    return {
+        sessions: sessions
+            .filter(isLegacySession)
+            .filter(
+                (session) =>
+                    !isNaN(new Date(session.startTime).getTime()) &&
+                    (typeof session.durationMs === 'number' || typeof session.duration === 'number')
+            )
+            // Records pushed before durations were stored in milliseconds
+            .map(normalizeLegacySession),
+        deleted: sanitizeTombstones('deleted' in data ? data.deleted : undefined)
+    };
+};
+
+// --- Client ---
+export const getDeviceId = (): string => {
+    let id = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (!id || !DEVICE_ID_PATTERN.test(id)) {
+        id =
+            typeof crypto !== 'undefined' && crypto.randomUUID
+                ? crypto.randomUUID()
+                : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        window.localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+};
+
+/** Sends the local state to the server and returns the merged result. */
+export const pushSessions = async (payload: SyncPayload): Promise<SyncPayload> => {
+    const response = await fetch(SYNC_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [DEVICE_ID_HEADER]: getDeviceId() },
+        body: JSON.stringify(payload)
+    });
+    if (!response.ok) {
+        throw new Error(`Session sync failed with status ${response.status}`);
+    }
+    return sanitizeSyncPayload(await response.json());
+};
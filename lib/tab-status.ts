@@ -0,0 +1,49 @@
+// Shows a running timer in the browser tab (title and favicon) while the page is hidden.
+const FAVICON_SIZE = 32;
+
+let original: { title: string; favicon: string | null } | null = null;
+
+const getFaviconLink = (): HTMLLinkElement => {
+    let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+    if (!link) {
+        link = document.createElement('link');
+        link.rel = 'icon';
+        document.head.appendChild(link);
+    }
+    return link;
+};
+
+// A dial whose filled slice is `progress` (0 to 1), drawn clockwise from 12 o'clock
+const drawFavicon = (progress: number, color: string): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = FAVICON_SIZE;
+    const ctx = canvas.getContext('2d');
+    const center = FAVICON_SIZE / 2;
+    ctx.fillStyle = '#e5e5e5';
+    ctx.beginPath();
+    ctx.arc(center, center, center, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(center, center);
+    ctx.arc(center, center, center, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.min(1, Math.max(0, progress)));
+    ctx.closePath();
+    ctx.fill();
+    return canvas.toDataURL('image/png');
+};
+
+/** Replaces the tab title and favicon; the first call remembers the originals. */
+export const setTabStatus = (title: string, progress: number, color = '#ff3333') => {
+    const link = getFaviconLink();
+    if (!original) original = { title: document.title, favicon: link.getAttribute('href') };
+    document.title = title;
+    link.href = drawFavicon(progress, color);
+};
+
+/** Restores the title and favicon replaced by `setTabStatus`. */
+export const clearTabStatus = () => {
+    if (!original) return;
+    document.title = original.title;
+    if (original.favicon) getFaviconLink().setAttribute('href', original.favicon);
+    original = null;
+};
@@ -0,0 +1,16 @@
+// Tags are typed as a comma-separated list ("deep work, #client-a"). They're trimmed,
+// lose a leading "#", and repeat only once regardless of case.
+export const parseTags = (text: string): string[] => {
+    const seen = new Set<string>();
+    return text
+        .split(',')
+        .map((tag) => tag.trim().replace(/^#/, '').trim())
+        .filter((tag) => {
+            const key = tag.toLowerCase();
+            if (!tag || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+export const formatTags = (tags: string[] | undefined): string => (tags ?? []).join(', ');
@@ -0,0 +1,216 @@
+// Calendar helpers that work in a chosen IANA timezone rather than the browser's own.
+
+// For browsers without Intl.supportedValuesOf
+const FALLBACK_TIMEZONES = [
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Los_Angeles',
+    'Asia/Singapore',
+    'Asia/Seoul',
+    'Europe/Amsterdam',
+    'UTC'
+];
+
+export type HourCycle = '12h' | '24h';
+export type DateOrder = 'ymd' | 'mdy' | 'dmy';
+
+export interface DisplaySettings {
+    hourCycle: HourCycle;
+    dateOrder: DateOrder;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = { hourCycle: '12h', dateOrder: 'ymd' };
+
+export const HOUR_CYCLE_OPTIONS: { value: HourCycle; label: string }[] = [
+    { value: '12h', label: '12-hour (02:30:00 PM)' },
+    { value: '24h', label: '24-hour (14:30:00)' }
+];
+
+export const DATE_ORDER_OPTIONS: { value: DateOrder; label: string }[] = [
+    { value: 'ymd', label: 'Year, month, day (2026.10.19)' },
+    { value: 'mdy', label: 'Month, day, year (10.19.2026)' },
+    { value: 'dmy', label: 'Day, month, year (19.10.2026)' }
+];
+
+const isValidTimezone = (timezone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/** Every IANA zone the browser knows, always including UTC. */
+export const getTimezones = (): string[] => {
+    const zones: string[] =
+        typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : FALLBACK_TIMEZONES;
+    return zones.includes('UTC') ? zones : [...zones, 'UTC'];
+};
+
+/** The browser's own zone, or `fallback` when it reports none or one this list can't use. */
+export const detectTimezone = (fallback: string): string => {
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return detected && isValidTimezone(detected) ? detected : fallback;
+};
+
+/** Short name of `timezone` at `date`, like "EDT", or "GMT+8" where it has no common abbreviation. */
+export const getTimezoneAbbreviation = (timezone: string, date = new Date()): string =>
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'short' })
+        .formatToParts(date)
+        .find((part) => part.type === 'timeZoneName')?.value ?? timezone;
+
+/** "America/New York (GMT-04:00)", with the offset in effect at `date`. */
+export const getTimezoneLabel = (timezone: string, date = new Date()): string => {
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'longOffset' })
+        .formatToParts(date)
+        .find((part) => part.type === 'timeZoneName')?.value;
+    const name = timezone.replace(/_/g, ' ');
+    return offset ? `${name} (${offset})` : name;
+};
+
+const dateKeyFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** "YYYY-MM-DD" for the calendar day `date` falls on in `timezone`. */
+export const getDateKey = (date: Date, timezone: string): string => {
+    let formatter = dateKeyFormatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-CA', {
+            timeZone: timezone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit'
+        });
+        dateKeyFormatters.set(timezone, formatter);
+    }
+    return formatter.format(date);
+};
+
+const displayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getDisplayParts = (date: Date, timezone: string, hourCycle: HourCycle): Record<string, string> => {
+    const cacheKey = `${timezone}|${hourCycle}`;
+    let formatter = displayFormatters.get(cacheKey);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: hourCycle === '12h' ? 'h12' : 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit'
+        });
+        displayFormatters.set(cacheKey, formatter);
+    }
+    return Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+};
+
+const joinTime = (parts: Record<string, string>, hourCycle: HourCycle): string => {
+    const time = `${parts.hour}:${parts.minute}:${parts.second}`;
+    return hourCycle === '12h' ? `${time} ${parts.dayPeriod}` : time;
+};
+
+/** "hh:mm:ss AM" or "HH:mm:ss" wall-clock time of `date` in `timezone`. */
+export const formatClockTime = (date: Date, timezone: string, hourCycle: HourCycle): string =>
+    joinTime(getDisplayParts(date, timezone, hourCycle), hourCycle);
+
+/** A "YYYY-MM-DD" key as "YYYY.MM.DD", or in the preferred date order. */
+export const formatDateKey = (key: string, dateOrder: DateOrder): string => {
+    const [year, month, day] = key.split('-');
+    const fields =
+        dateOrder === 'mdy' ? [month, day, year] : dateOrder === 'dmy' ? [day, month, year] : [year, month, day];
+    return fields.join('.');
+};
+
+/**
+ * "YYYY.MM.DD hh:mm:ss AM" in `timezone`, as History lists sessions, or in the order and hour
+ * cycle of `display`. Exports keep the default so their files import back in.
+ */
+export const formatSessionTime = (
+    date: Date,
+    timezone: string,
+    display: DisplaySettings = DEFAULT_DISPLAY_SETTINGS
+): string => {
+    const parts = getDisplayParts(date, timezone, display.hourCycle);
+    const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+    return `${formatDateKey(dateKey, display.dateOrder)} ${joinTime(parts, display.hourCycle)}`;
+};
+
+/** Moves a "YYYY-MM-DD" key by whole days. */
+export const addDaysToKey = (key: string, days: number): string => {
+    const date = new Date(`${key}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+/** Key of the Monday that starts the week containing the day `key`. */
+export const getWeekKey = (key: string): string => {
+    const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+    return addDaysToKey(key, -((weekday + 6) % 7));
+};
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (date: Date, timezone: string): Record<string, number> => {
+    let formatter = partFormatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        });
+        partFormatters.set(timezone, formatter);
+    }
+    return Object.fromEntries(
+        formatter
+            .formatToParts(date)
+            .filter((part) => part.type !== 'literal')
+            .map((part) => [part.type, Number(part.value)])
+    );
+};
+
+// How far `timezone`'s wall clock is ahead of UTC at `date`, in ms
+const getOffsetMs = (date: Date, timezone: string): number => {
+    const parts = getZonedParts(date, timezone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/** "HH:MM:SS" wall-clock time of `date` in `timezone`. */
+export const getTimeKey = (date: Date, timezone: string): string => {
+    const parts = getZonedParts(date, timezone);
+    return [parts.hour, parts.minute, parts.second].map((value) => String(value).padStart(2, '0')).join(':');
+};
+
+/**
+ * The instant a "YYYY-MM-DD" day and "HH:MM[:SS]" time mean in `timezone`. Like a wall clock,
+ * a time skipped by a DST change moves on by the length of the gap, and a repeated time
+ * means its first occurrence.
+ */
+export const zonedTimeToDate = (dateKey: string, timeKey: string, timezone: string): Date => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const [hour, minute, second = 0] = timeKey.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+    // The offsets a day either side are the ones in force before and after any change near this time
+    const before = wallClock - getOffsetMs(new Date(wallClock - 86400000), timezone);
+    const after = wallClock - getOffsetMs(new Date(wallClock + 86400000), timezone);
+    const readsBack = (instant: number) => getOffsetMs(new Date(instant), timezone) === wallClock - instant;
+    if (readsBack(before)) return new Date(readsBack(after) ? Math.min(before, after) : before);
+    return new Date(readsBack(after) ? after : before);
+};
+
+/** Calendar days `timezone` is ahead of `reference` at `date`: -1, 0 or 1. */
+export const getDayOffset = (date: Date, timezone: string, reference: string): number =>
+    (Date.parse(getDateKey(date, timezone)) - Date.parse(getDateKey(date, reference))) / 86400000;
+
+/** "+1 day" or "-1 day" next to a zone's time, or "" on the same day. */
+export const formatDayOffset = (offset: number): string =>
+    offset === 0 ? '' : `${offset > 0 ? '+' : '-'}${Math.abs(offset)} day${Math.abs(offset) === 1 ? '' : 's'}`;